@@ -0,0 +1,57 @@
+import { expect, test } from "vitest"
+import { decodeAltCode, decodeCodePage, getAltCodeDigit } from "./alt-code.js"
+import { SpecialCharInput } from "./special-char.js"
+import { makeKeyEvent } from "./test-helpers.js"
+
+test.each([
+  ["30", "\x1e"],
+  ["030", "\x1e"],
+  ["0030", "\x1e"],
+  ["64", "@"],
+  ["13", "\r"],
+  ["130", "é"],
+  ["0130", "‚"],
+  ["0233", "é"],
+  ["233", "Θ"],
+  ["0128", "€"],
+  ["0129", "\x81"],
+  ["286", "\x1e"],
+  ["0320", "@"],
+  ["99999999999999999999", "\xa0"],
+  ["", undefined],
+  ["1a", undefined],
+])("decodes alt code %j", (digits, expected) => {
+  expect(decodeAltCode(digits)).toBe(expected)
+})
+
+test("decodes code pages", () => {
+  expect(decodeCodePage(0x41, "cp437")).toBe("A")
+  expect(decodeCodePage(0xff, "cp437")).toBe("\xa0")
+  expect(decodeCodePage(0xdb, "cp437")).toBe("█")
+  expect(decodeCodePage(0x9f, "cp1252")).toBe("Ÿ")
+  expect(decodeCodePage(0xff, "cp1252")).toBe("ÿ")
+})
+
+test("gets alt code digits", () => {
+  expect(getAltCodeDigit({ code: "Numpad3", key: "PageDown" })).toBe("3")
+  expect(getAltCodeDigit({ code: "Digit3", key: "3" })).toBe("3")
+  expect(getAltCodeDigit({ code: "NumpadEnter", key: "Enter" })).toBeUndefined()
+})
+
+const typeAltCode = (input: SpecialCharInput, codes: readonly string[]) => {
+  for (const code of codes) {
+    const { event } = makeKeyEvent(code, "Clear", ["Alt"])
+    expect(input.onKeyDown(event)).toBeUndefined()
+  }
+  return input.onKeyUp(makeKeyEvent("AltLeft", "Alt").event)
+}
+
+test("special char input reads numpad alt codes", () => {
+  const input = new SpecialCharInput()
+
+  expect(typeAltCode(input, ["Numpad3", "Numpad0"])).toBe("\x1e")
+  expect(typeAltCode(input, ["Numpad1", "Numpad3", "Numpad0"])).toBe("é")
+  expect(typeAltCode(input, ["Numpad0", "Numpad1", "Numpad3", "Numpad0"])).toBe(
+    "‚",
+  )
+})
@@ -0,0 +1,81 @@
+/**
+ * Windows alt code translation.
+ *
+ * Alt codes without a leading zero use the OEM code page (CP437), and codes
+ * with a leading zero use the ANSI code page (CP1252). Values wrap around
+ * at 256.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * A code page used for alt codes.
+ */
+export type CodePage = "cp437" | "cp1252"
+
+// characters 0x80 - 0xff
+const CP437_HIGH =
+  "ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\xa0"
+
+// characters 0x80 - 0x9f, unassigned codes map to the C1 control character
+const CP1252_C1 = "€\x81‚ƒ„…†‡ˆ‰Š‹Œ\x8dŽ\x8f\x90‘’“”•–—˜™š›œ\x9džŸ"
+
+/**
+ * Get the character for a byte in a code page.
+ *
+ * Bytes below 0x80 are ASCII in both code pages, including control
+ * characters, which scanners use for separators.
+ */
+export const decodeCodePage = (byte: number, codePage: CodePage): string => {
+  if (byte < 0x80) {
+    return String.fromCharCode(byte)
+  } else if (codePage == "cp437") {
+    return CP437_HIGH.charAt(byte - 0x80)
+  } else if (byte < 0xa0) {
+    return CP1252_C1.charAt(byte - 0x80)
+  } else {
+    // the rest of CP1252 matches Latin-1
+    return String.fromCharCode(byte)
+  }
+}
+
+/**
+ * Get the code page an alt code uses.
+ */
+export const getAltCodePage = (digits: string): CodePage =>
+  digits.startsWith("0") ? "cp1252" : "cp437"
+
+/**
+ * Translate the digits of an alt code to a character.
+ *
+ * @returns The character, or undefined if the digits are invalid
+ */
+export const decodeAltCode = (digits: string): string | undefined => {
+  if (!/^\d+$/.test(digits)) {
+    return undefined
+  }
+  // only the low byte is used, and long codes must not lose precision
+  let value = 0
+  for (const d of digits) {
+    value = (value * 10 + parseInt(d, 10)) % 256
+  }
+  return decodeCodePage(value, getAltCodePage(digits))
+}
+
+const NUMPAD_CODE = /^Numpad(\d)$/
+
+/**
+ * Get the alt code digit of a key, from the numpad key code or the key.
+ *
+ * With Num Lock off, numpad keys report navigation keys such as "End", so the
+ * physical key code is checked first.
+ */
+export const getAltCodeDigit = (
+  e: Readonly<{ key: string; code: string }>,
+): string | undefined => {
+  const numpad = NUMPAD_CODE.exec(e.code)
+  if (numpad) {
+    return numpad[1]
+  }
+  return /^\d$/.test(e.key) ? e.key : undefined
+}
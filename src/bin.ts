@@ -0,0 +1,27 @@
+#!/usr/bin/env node
+/// <reference types="node" />
+
+/**
+ * Entry point of the `dlid-decode` command.
+ *
+ * @packageDocumentation
+ */
+
+import { readFile } from "node:fs/promises"
+import { runCLI } from "./cli.js"
+
+const readStdin = async (): Promise<string> => {
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) {
+    // Buffers, unless an encoding was set
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(String(chunk)))
+  }
+  return Buffer.concat(chunks).toString("utf8")
+}
+
+process.exitCode = await runCLI(process.argv.slice(2), {
+  readFile: (path) => readFile(path, "utf8"),
+  readStdin,
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+})
@@ -0,0 +1,72 @@
+import { describe, expect, test } from "vitest"
+import { computeAge, getAge, isAtLeastAge, isExpired } from "./checks.js"
+import { makeResult } from "./test-helpers.js"
+
+const result = makeResult({
+  DL: {
+    DCG: "USA",
+    DBB: "06062006",
+    DBA: "06062027",
+    DDH: "06062024",
+    DDJ: "06062027",
+  },
+})
+
+describe("checks", () => {
+  test("computes age", () => {
+    const dob = { year: 2000, month: 2, day: 29 }
+    expect(computeAge(dob, { year: 2021, month: 2, day: 28 })).toBe(20)
+    expect(computeAge(dob, { year: 2021, month: 3, day: 1 })).toBe(21)
+    expect(computeAge(dob, { year: 2024, month: 2, day: 29 })).toBe(24)
+  })
+
+  test("gets age", () => {
+    const opts = { timeZone: "UTC" }
+    expect(
+      getAge(result, { ...opts, now: new Date("2024-06-06T12:00:00Z") }),
+    ).toBe(18)
+    expect(
+      getAge(result, { ...opts, now: new Date("2024-06-05T12:00:00Z") }),
+    ).toBe(17)
+    expect(getAge(makeResult({ DL: {} }))).toBeUndefined()
+  })
+
+  test("uses time zone for reference date", () => {
+    const now = new Date("2024-06-06T02:00:00Z")
+    expect(getAge(result, { now, timeZone: "UTC" })).toBe(18)
+    expect(getAge(result, { now, timeZone: "America/New_York" })).toBe(17)
+  })
+
+  test("checks minimum age", () => {
+    const now = new Date("2027-06-06T12:00:00Z")
+    expect(isAtLeastAge(result, 21, { now, timeZone: "UTC" })).toBe(true)
+    expect(isAtLeastAge(result, 18, { now, timeZone: "UTC" })).toBe(true)
+    expect(isAtLeastAge(result, 25, { now, timeZone: "UTC" })).toBe(false)
+    expect(isAtLeastAge(makeResult({ DL: {} }), 18, { now })).toBe(false)
+  })
+
+  test("checks under age until elements", () => {
+    const res = makeResult({ DL: { DBB: "01012000", DDJ: "06062027" } })
+    const now = new Date("2027-01-01T12:00:00Z")
+    expect(isAtLeastAge(res, 21, { now, timeZone: "UTC" })).toBe(false)
+    expect(isAtLeastAge(res, 19, { now, timeZone: "UTC" })).toBe(true)
+  })
+
+  test("checks expiration", () => {
+    const opts = { timeZone: "UTC" }
+    expect(
+      isExpired(result, { ...opts, now: new Date("2027-06-06T23:00:00Z") }),
+    ).toBe(false)
+    expect(
+      isExpired(result, { ...opts, now: new Date("2027-06-07T01:00:00Z") }),
+    ).toBe(true)
+    expect(
+      isExpired(result, {
+        ...opts,
+        now: new Date("2027-07-06T01:00:00Z"),
+        gracePeriodDays: 30,
+      }),
+    ).toBe(false)
+    expect(isExpired(makeResult({ DL: {} }))).toBe(true)
+  })
+})
@@ -0,0 +1,117 @@
+/**
+ * Age and document validity checks.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  addDays,
+  compareDates,
+  getCalendarDate,
+  resolveDateElement,
+  type CalendarDate,
+} from "./dates.js"
+import type { ParseResult } from "./parse.js"
+
+/**
+ * Reference date options.
+ */
+export type ReferenceDateOptions = Readonly<{
+  /** The reference point in time, defaults to the current time. */
+  now?: Date | undefined
+  /** IANA time zone of the reference date, defaults to the local time zone. */
+  timeZone?: string | undefined
+}>
+
+/**
+ * Expiration check options.
+ */
+export type ExpirationOptions = ReferenceDateOptions &
+  Readonly<{
+    /** Number of days after expiration the document is still accepted. */
+    gracePeriodDays?: number | undefined
+  }>
+
+// elements giving the date a cardholder reaches an age
+const underAgeUntilElements: Readonly<Record<number, string>> = {
+  18: "DDH",
+  19: "DDI",
+  21: "DDJ",
+}
+
+const getReferenceDate = (options: ReferenceDateOptions): CalendarDate =>
+  getCalendarDate(options.now ?? new Date(), options.timeZone)
+
+/**
+ * Compute the age of a date of birth on a date.
+ */
+export const computeAge = (
+  dateOfBirth: CalendarDate,
+  date: CalendarDate,
+): number => {
+  const hadBirthday =
+    date.month > dateOfBirth.month ||
+    (date.month == dateOfBirth.month && date.day >= dateOfBirth.day)
+  return date.year - dateOfBirth.year - (hadBirthday ? 0 : 1)
+}
+
+/**
+ * Get the age of the cardholder from the DBB element.
+ *
+ * @returns The age in years, or undefined if the date of birth is unknown
+ */
+export const getAge = (
+  result: ParseResult,
+  options: ReferenceDateOptions = {},
+): number | undefined => {
+  const dateOfBirth = resolveDateElement(result, "DBB")?.date
+  if (dateOfBirth) {
+    return computeAge(dateOfBirth, getReferenceDate(options))
+  }
+}
+
+/**
+ * Check whether the cardholder is at least a given age.
+ *
+ * For 18, 19 and 21 the "under age until" element (DDH, DDI, DDJ) is also
+ * checked when present, and both must agree.
+ *
+ * @returns Whether the cardholder is old enough, false if unknown
+ */
+export const isAtLeastAge = (
+  result: ParseResult,
+  years: number,
+  options: ReferenceDateOptions = {},
+): boolean => {
+  const date = getReferenceDate(options)
+
+  const underAgeUntilElement = underAgeUntilElements[years]
+  if (underAgeUntilElement != null) {
+    const underAgeUntil = resolveDateElement(result, underAgeUntilElement)
+    if (underAgeUntil && compareDates(date, underAgeUntil.date) < 0) {
+      return false
+    }
+  }
+
+  const dateOfBirth = resolveDateElement(result, "DBB")?.date
+  return dateOfBirth != null && computeAge(dateOfBirth, date) >= years
+}
+
+/**
+ * Check whether the document is expired, from the DBA element.
+ *
+ * The document is valid through its expiration date. Documents without a
+ * valid expiration date are treated as expired.
+ */
+export const isExpired = (
+  result: ParseResult,
+  options: ExpirationOptions = {},
+): boolean => {
+  const expiration = resolveDateElement(result, "DBA")?.date
+  if (!expiration) {
+    return true
+  }
+
+  const lastValidDate = addDays(expiration, options.gracePeriodDays ?? 0)
+  return compareDates(getReferenceDate(options), lastValidDate) > 0
+}
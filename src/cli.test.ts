@@ -0,0 +1,133 @@
+import { describe, expect, test } from "vitest"
+import { runCLI, type CLIIO } from "./cli.js"
+import { showControlChars } from "./diagnostics.js"
+import { exampleData } from "./test-helpers.js"
+
+const run = async (args: readonly string[], files: Record<string, string>) => {
+  let stdout = ""
+  let stderr = ""
+  const io: CLIIO = {
+    readFile: async (path) => {
+      const text = files[path]
+      if (text == null) {
+        throw new Error("not found")
+      }
+      return text
+    },
+    readStdin: async () => files["-"] ?? "",
+    stdout: (text) => {
+      stdout += text
+    },
+    stderr: (text) => {
+      stderr += text
+    },
+  }
+  const code = await runCLI(args, io)
+  return { code, stdout, stderr }
+}
+
+describe("cli", () => {
+  test("prints a table", async () => {
+    const { code, stdout } = await run([], { "-": exampleData })
+
+    expect(code).toBe(0)
+    expect(stdout).toContain("== <stdin>")
+    expect(stdout).toContain("IIN                   636000 (Virginia, VA)")
+    expect(stdout).toContain("Separators            <LF><RS><CR>")
+    expect(stdout).toContain("DL       31      25")
+    expect(stdout).toContain("DL       DCS      SAMPLE")
+  })
+
+  test("prints JSON", async () => {
+    const { code, stdout } = await run(["-f", "json", "a.txt"], {
+      "a.txt": exampleData,
+    })
+
+    expect(code).toBe(0)
+    const json = JSON.parse(stdout)
+    expect(json).toHaveLength(1)
+    expect(json[0].source).toBe("a.txt")
+    expect(json[0].result.header.iin).toBe("636000")
+    expect(json[0].result.subfiles[0].records).toStrictEqual([
+      ["DAQ", "T64235789"],
+      ["DCS", "SAMPLE"],
+    ])
+  })
+
+  test("prints CSV", async () => {
+    const { stdout } = await run(["--format", "csv"], { "-": exampleData })
+    const lines = stdout.trimEnd().split("\n")
+
+    expect(lines[0]).toBe("source,section,subfile,element,value")
+    expect(lines).toContain("<stdin>,header,,iin,636000")
+    expect(lines).toContain("<stdin>,designator,DL,offset,31")
+    expect(lines).toContain("<stdin>,record,DL,DAQ,T64235789")
+  })
+
+  test("reads escaped payloads", async () => {
+    const escaped = showControlChars(exampleData).replace(/<LF>/g, "\\n")
+    const { code, stdout } = await run(["-f", "csv", "a.txt"], {
+      "a.txt": `${escaped}\n${escaped}\n`,
+    })
+
+    expect(code).toBe(0)
+    expect(stdout).toContain("a.txt#1,record,DL,DCS,SAMPLE")
+    expect(stdout).toContain("a.txt#2,record,DL,DCS,SAMPLE")
+  })
+
+  test("reads raw payloads with only line breaks", async () => {
+    const data = "@\n\n\rANSI 636000110001DL00310025DLDAQT64235789\nDCSSAMPLE\r"
+    const { code, stdout } = await run(["-f", "csv"], { "-": data })
+
+    expect(code).toBe(0)
+    expect(stdout).toContain("<stdin>,record,DL,DCS,SAMPLE")
+  })
+
+  test("reads multiple raw payloads", async () => {
+    const { code, stdout } = await run(["-i", "raw", "-f", "json"], {
+      "-": exampleData + exampleData,
+    })
+
+    expect(code).toBe(0)
+    expect(
+      JSON.parse(stdout).map((d: { source: string }) => d.source),
+    ).toStrictEqual(["<stdin>#1", "<stdin>#2"])
+  })
+
+  test("reports parse errors", async () => {
+    const { code, stdout, stderr } = await run(["a.txt", "b.txt"], {
+      "a.txt": exampleData.replace("DL00310025", "DL00290025"),
+      "b.txt": exampleData,
+    })
+
+    expect(code).toBe(1)
+    expect(stderr).toContain("a.txt: Subfile 'DL' not found at offset 29")
+    expect(stderr).toContain("at offset 29")
+    expect(stdout).toContain("== b.txt")
+  })
+
+  test("reports incomplete payloads", async () => {
+    const { code, stderr } = await run([], {
+      "-": exampleData.substring(0, 40),
+    })
+
+    expect(code).toBe(1)
+    expect(stderr).toBe("<stdin>: Incomplete payload\nat offset 40\n")
+  })
+
+  test("reports unreadable files", async () => {
+    const { code, stdout, stderr } = await run(["missing.txt", "a.txt"], {
+      "a.txt": exampleData,
+    })
+
+    expect(code).toBe(1)
+    expect(stderr).toBe("missing.txt: not found\n")
+    expect(stdout).toContain("== a.txt")
+  })
+
+  test("reports usage errors", async () => {
+    expect((await run(["-f", "xml"], {})).code).toBe(2)
+    expect((await run(["--bogus"], {})).code).toBe(2)
+    expect((await run(["-h"], {})).stdout).toContain("Usage: dlid-decode")
+  })
+})
@@ -0,0 +1,370 @@
+/**
+ * Command-line decoding of raw scan dumps.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  readControlChars,
+  showControlChars,
+  formatParseError,
+} from "./diagnostics.js"
+import { parseResultToJSON } from "./json.js"
+import { getJurisdiction } from "./iin.js"
+import {
+  findHeaderStart,
+  makeDLIDParser,
+  ParseError,
+  type ParseResult,
+} from "./parse.js"
+import { EOF, StringIO } from "./stringio.js"
+
+/**
+ * Input handling used by {@link runCLI}.
+ */
+export type CLIIO = Readonly<{
+  readFile(path: string): Promise<string>
+  readStdin(): Promise<string>
+  stdout(text: string): void
+  stderr(text: string): void
+}>
+
+/**
+ * How input text is interpreted.
+ *
+ * - `raw` - the text is the payload, with its control characters
+ * - `escaped` - control characters are written as `\n`, `\x1e` or `<RS>`,
+ *   and line breaks are ignored
+ * - `auto` - `raw` if the text has a raw header, or control characters other
+ *   than line breaks, `escaped` otherwise
+ */
+export type CLIInputMode = "auto" | "raw" | "escaped"
+
+export type CLIOutputFormat = "json" | "table" | "csv"
+
+type CLIOptions = {
+  input: CLIInputMode
+  format: CLIOutputFormat
+  lenient: boolean
+  paths: string[]
+}
+
+type Decoded = Readonly<{
+  source: string
+  result: ParseResult
+}>
+
+class UsageError extends Error {}
+
+const USAGE = `Usage: dlid-decode [options] [file...]
+
+Decode AAMVA DL/ID barcode payloads. Reads stdin if no file, or "-", is
+given. A file may contain more than one payload.
+
+Options:
+  -i, --input <mode>    auto, raw or escaped (default: auto)
+  -f, --format <fmt>    json, table or csv (default: table)
+  -l, --lenient         recover from wrong subfile offsets and lengths
+  -h, --help            show this help
+`
+
+const inputModes: readonly CLIInputMode[] = ["auto", "raw", "escaped"]
+const outputFormats: readonly CLIOutputFormat[] = ["json", "table", "csv"]
+
+const isInputMode = (value: string): value is CLIInputMode =>
+  inputModes.some((m) => m == value)
+
+const isOutputFormat = (value: string): value is CLIOutputFormat =>
+  outputFormats.some((f) => f == value)
+
+const NON_LINE_BREAK_CONTROL_CHARS = /[\x00-\x09\x0b\x0c\x0e-\x1f]/
+const LINE_BREAKS = /\r?\n/g
+
+const parseArgs = (args: readonly string[]): CLIOptions | undefined => {
+  const options: CLIOptions = {
+    input: "auto",
+    format: "table",
+    lenient: false,
+    paths: [],
+  }
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] ?? ""
+    const getValue = <T extends string>(
+      allowed: readonly T[],
+      isAllowed: (value: string) => value is T,
+    ): T => {
+      const value = args[++i] ?? ""
+      if (!isAllowed(value)) {
+        throw new UsageError(`${arg} must be one of: ${allowed.join(", ")}`)
+      }
+      return value
+    }
+
+    if (arg == "-h" || arg == "--help") {
+      return undefined
+    } else if (arg == "-i" || arg == "--input") {
+      options.input = getValue(inputModes, isInputMode)
+    } else if (arg == "-f" || arg == "--format") {
+      options.format = getValue(outputFormats, isOutputFormat)
+    } else if (arg == "-l" || arg == "--lenient") {
+      options.lenient = true
+    } else if (arg.startsWith("-") && arg != "-") {
+      throw new UsageError(`Unknown option: ${arg}`)
+    } else {
+      options.paths.push(arg)
+    }
+  }
+
+  if (options.paths.length == 0) {
+    options.paths.push("-")
+  }
+  return options
+}
+
+/**
+ * Get the payload text of an input.
+ */
+const readInput = (text: string, mode: CLIInputMode): string => {
+  const escaped =
+    mode == "escaped" ||
+    (mode == "auto" &&
+      findHeaderStart(text) == -1 &&
+      !NON_LINE_BREAK_CONTROL_CHARS.test(text))
+  return escaped ? readControlChars(text.replace(LINE_BREAKS, "")) : text
+}
+
+/**
+ * Split input data into payloads at each header.
+ */
+const splitPayloads = (data: string): string[] => {
+  const starts: number[] = []
+  for (
+    let start = findHeaderStart(data);
+    start != -1;
+    start = findHeaderStart(data, start + 1)
+  ) {
+    starts.push(start)
+  }
+  if (starts.length == 0) {
+    const trimmed = data.trim()
+    return trimmed ? [trimmed] : []
+  }
+  return starts.map((start, i) => data.substring(start, starts[i + 1]))
+}
+
+const formatTable = (rows: readonly (readonly string[])[]): string => {
+  const widths: number[] = []
+  rows.forEach((row) =>
+    row.forEach((cell, i) => {
+      widths[i] = Math.max(widths[i] ?? 0, cell.length)
+    }),
+  )
+  return rows
+    .map((row) =>
+      row
+        .map((cell, i) =>
+          i < row.length - 1 ? cell.padEnd(widths[i] ?? 0) : cell,
+        )
+        .join("  "),
+    )
+    .join("\n")
+}
+
+const formatHeaderRows = (result: ParseResult): string[][] => {
+  const { header } = result
+  const jurisdiction = getJurisdiction(header.iin)
+  return [
+    [
+      "IIN",
+      jurisdiction
+        ? `${header.iin} (${jurisdiction.name}, ${jurisdiction.abbreviation})`
+        : header.iin,
+    ],
+    ["AAMVA version", header.aamvaVersion],
+    ["Jurisdiction version", header.jurisdictionVersion],
+    [
+      "Separators",
+      showControlChars(
+        header.dataElementSeparator +
+          header.recordSeparator +
+          header.segmentTerminator,
+      ),
+    ],
+    ["Entries", header.numEntries.toString()],
+  ]
+}
+
+const formatTableOutput = (decoded: readonly Decoded[]): string =>
+  decoded
+    .map(({ source, result }) => {
+      const sections = [
+        `== ${source}`,
+        formatTable(formatHeaderRows(result)),
+        formatTable([
+          ["Subfile", "Offset", "Length"],
+          ...result.subfileDesignators.map((d) => [
+            d.type,
+            d.offset.toString(),
+            d.length.toString(),
+          ]),
+        ]),
+      ]
+
+      const records: string[][] = [["Subfile", "Element", "Value"]]
+      result.subfiles.forEach((data, type) => {
+        data.forEach((value, id) => {
+          records.push([type, id, showControlChars(value)])
+        })
+      })
+      sections.push(formatTable(records))
+
+      if (result.warnings.length > 0) {
+        sections.push(
+          result.warnings.map((w) => `Warning: ${w.message}`).join("\n"),
+        )
+      }
+      return sections.join("\n\n")
+    })
+    .join("\n\n") + "\n"
+
+const quoteCSV = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+const formatCSVOutput = (decoded: readonly Decoded[]): string => {
+  const rows: string[][] = [
+    ["source", "section", "subfile", "element", "value"],
+  ]
+  decoded.forEach(({ source, result }) => {
+    const { header } = result
+    rows.push(
+      ...Object.entries(header).map(([name, value]) => [
+        source,
+        "header",
+        "",
+        name,
+        showControlChars(value.toString()),
+      ]),
+    )
+    result.subfileDesignators.forEach((d) => {
+      rows.push([source, "designator", d.type, "offset", d.offset.toString()])
+      rows.push([source, "designator", d.type, "length", d.length.toString()])
+    })
+    result.subfiles.forEach((data, type) => {
+      data.forEach((value, id) => {
+        rows.push([source, "record", type, id, showControlChars(value)])
+      })
+    })
+    result.warnings.forEach((w) => {
+      rows.push([source, "warning", w.subfileType, w.type, w.message])
+    })
+  })
+  return rows.map((row) => row.map(quoteCSV).join(",")).join("\n") + "\n"
+}
+
+const formatOutput = (
+  decoded: readonly Decoded[],
+  format: CLIOutputFormat,
+): string => {
+  switch (format) {
+    case "json":
+      return (
+        JSON.stringify(
+          decoded.map(({ source, result }) => ({
+            source,
+            result: parseResultToJSON(result),
+          })),
+          null,
+          2,
+        ) + "\n"
+      )
+    case "table":
+      return formatTableOutput(decoded)
+    case "csv":
+      return formatCSVOutput(decoded)
+  }
+}
+
+/**
+ * Parse a payload.
+ *
+ * @returns The result, or an error description
+ */
+const parsePayload = (
+  payload: string,
+  lenient: boolean,
+): ParseResult | string => {
+  try {
+    return makeDLIDParser(new StringIO(payload), { lenient }).parse()
+  } catch (e) {
+    if (e instanceof ParseError) {
+      return formatParseError(e, payload)
+    } else if (e instanceof EOF) {
+      return `Incomplete payload\nat offset ${payload.length}`
+    }
+    throw e
+  }
+}
+
+/**
+ * Run the command-line tool.
+ *
+ * @param args - The arguments, without the program name
+ * @param io - {@link CLIIO}
+ * @returns The exit code: 0 on success, 1 if an input could not be read or a
+ *   payload failed to parse, 2 for usage errors
+ */
+export const runCLI = async (
+  args: readonly string[],
+  io: CLIIO,
+): Promise<number> => {
+  let options
+  try {
+    options = parseArgs(args)
+  } catch (e) {
+    if (e instanceof UsageError) {
+      io.stderr(`${e.message}\n\n${USAGE}`)
+      return 2
+    }
+    throw e
+  }
+  if (!options) {
+    io.stdout(USAGE)
+    return 0
+  }
+
+  const decoded: Decoded[] = []
+  let failed = false
+  for (const path of options.paths) {
+    const name = path == "-" ? "<stdin>" : path
+    let text
+    try {
+      text = path == "-" ? await io.readStdin() : await io.readFile(path)
+    } catch (e) {
+      io.stderr(`${name}: ${e instanceof Error ? e.message : String(e)}\n`)
+      failed = true
+      continue
+    }
+
+    const payloads = splitPayloads(readInput(text, options.input))
+    if (payloads.length == 0) {
+      io.stderr(`${name}: no payload found\n`)
+      failed = true
+    }
+    payloads.forEach((payload, i) => {
+      const source = payloads.length > 1 ? `${name}#${i + 1}` : name
+      const res = parsePayload(payload, options.lenient)
+      if (typeof res == "string") {
+        io.stderr(`${source}: ${res}\n`)
+        failed = true
+      } else {
+        decoded.push({ source, result: res })
+      }
+    })
+  }
+
+  if (decoded.length > 0) {
+    io.stdout(formatOutput(decoded, options.format))
+  }
+  return failed ? 1 : 0
+}
@@ -0,0 +1,525 @@
+import { describe, expect, test } from "vitest"
+import { DLIDInputController } from "./controller.js"
+import { scannerProfiles } from "./profile.js"
+import { exampleData, makeFakeClock } from "./test-helpers.js"
+
+const type = (input: DLIDInputController, value: string) => {
+  for (const c of value) {
+    input.append(c)
+  }
+}
+
+describe("input controller", () => {
+  test("appends plain input", () => {
+    const { clock } = makeFakeClock()
+    const input = new DLIDInputController("a", { clock })
+
+    input.append("bc")
+    expect(input.getSnapshot()).toStrictEqual({
+      status: "idle",
+      value: "abc",
+      isCapturing: false,
+      isParsingDLID: false,
+    })
+  })
+
+  test("captures a scan", () => {
+    const { clock, timers } = makeFakeClock()
+    const input = new DLIDInputController("", { clock })
+
+    input.append("name ")
+    type(input, exampleData)
+
+    const state = input.getSnapshot()
+    expect(state.value).toBe("name @")
+    expect(state.isCapturing).toBe(false)
+    expect(state.result?.subfiles.get("DL")?.get("DCS")).toBe("SAMPLE")
+    expect(timers.size).toBe(0)
+  })
+
+  test("captures a trigger typed on another layout", () => {
+    const { clock, advance } = makeFakeClock()
+    const input = new DLIDInputController("", { clock })
+
+    // "@" from a US scanner arrives as "2" on AZERTY
+    input.append("2", "@")
+    expect(input.getSnapshot().isCapturing).toBe(true)
+    type(input, exampleData.substring(1))
+    expect(input.getSnapshot().result?.subfiles.get("DL")?.get("DCS")).toBe(
+      "SAMPLE",
+    )
+
+    input.setValue("")
+    input.append("2", "@")
+    advance(100)
+    input.append("e")
+    expect(input.getSnapshot()).toMatchObject({
+      isCapturing: false,
+      value: "2e",
+    })
+  })
+
+  test("cancels capture on timeout", () => {
+    const { clock, advance } = makeFakeClock()
+    const input = new DLIDInputController("", { clock })
+
+    type(input, "@\n\x1e\r")
+    expect(input.getSnapshot().isCapturing).toBe(true)
+
+    advance(199)
+    expect(input.getSnapshot().isCapturing).toBe(true)
+
+    advance(1)
+    expect(input.getSnapshot()).toStrictEqual({
+      status: "error",
+      value: "",
+      isCapturing: false,
+      isParsingDLID: false,
+      result: undefined,
+      error: { type: "timeout", message: "Scan incomplete", position: 4 },
+      raw: "@\n\x1e\r",
+    })
+  })
+
+  test("cancels capture on header parse error", () => {
+    const { clock, timers } = makeFakeClock()
+    const input = new DLIDInputController("", { clock })
+
+    input.setValue("jane@")
+    input.setValue("jane@e")
+    expect(input.getSnapshot().isCapturing).toBe(false)
+    expect(input.getSnapshot().value).toBe("jane@e")
+    expect(timers.size).toBe(0)
+  })
+
+  test("notifies subscribers", () => {
+    const { clock } = makeFakeClock()
+    const input = new DLIDInputController("", { clock })
+    let calls = 0
+
+    const unsub = input.subscribe(() => calls++)
+    input.append("a")
+    expect(calls).toBe(1)
+
+    unsub()
+    input.append("b")
+    expect(calls).toBe(1)
+  })
+
+  test("disposes", () => {
+    const { clock, timers } = makeFakeClock()
+    const input = new DLIDInputController("", { clock })
+    let calls = 0
+
+    input.subscribe(() => calls++)
+    input.append("@")
+    expect(timers.size).toBe(1)
+
+    input.dispose()
+    expect(timers.size).toBe(0)
+    expect(input.getSnapshot().isCapturing).toBe(false)
+
+    const count = calls
+    input.append("a")
+    expect(calls).toBe(count)
+  })
+
+  test("captures a scan after a prefix", () => {
+    const { clock } = makeFakeClock()
+    const input = new DLIDInputController("", {
+      clock,
+      profile: scannerProfiles.honeywellSTXETX,
+    })
+
+    input.append("a@")
+    expect(input.getSnapshot().isCapturing).toBe(false)
+
+    input.append("\x02")
+    expect(input.getSnapshot()).toStrictEqual({
+      status: "capturing",
+      value: "a@",
+      isCapturing: true,
+      isParsingDLID: false,
+      error: undefined,
+      raw: undefined,
+    })
+
+    type(input, exampleData)
+    input.append("\x03")
+    input.append("b")
+
+    const state = input.getSnapshot()
+    expect(state.value).toBe("a@b")
+    expect(state.result?.subfiles.get("DL")?.get("DCS")).toBe("SAMPLE")
+  })
+
+  test("restores the prefix on cancel without control characters", () => {
+    const { clock, advance } = makeFakeClock()
+    const input = new DLIDInputController("", {
+      clock,
+      profile: scannerProfiles.honeywellSTXETX,
+    })
+
+    input.append("\x02")
+    input.append("x")
+    expect(input.getSnapshot().isCapturing).toBe(false)
+    expect(input.getSnapshot().value).toBe("x")
+
+    input.append("\x02")
+    input.append("@")
+    advance(200)
+    expect(input.getSnapshot().isCapturing).toBe(false)
+    expect(input.getSnapshot().value).toBe("x@")
+  })
+
+  test("discards the suffix", () => {
+    const { clock, advance } = makeFakeClock()
+    const input = new DLIDInputController("", {
+      clock,
+      profile: { ...scannerProfiles.zebraTab, suffix: "\t\t" },
+    })
+
+    type(input, exampleData)
+    input.append("\t")
+    input.append("\t")
+    input.append("a")
+    expect(input.getSnapshot().value).toBe("@a")
+
+    type(input, exampleData)
+    advance(200)
+    input.append("\t")
+    // typed, but control characters are not kept
+    expect(input.getSnapshot().value).toBe("@a@")
+  })
+
+  test("remaps captured characters", () => {
+    const { clock } = makeFakeClock()
+    const input = new DLIDInputController("", {
+      clock,
+      profile: { charTimeout: 200, remap: { "|": "\n" } },
+    })
+
+    type(input, exampleData.replaceAll("\n", "|"))
+    expect(input.getSnapshot().result?.subfiles.get("DL")?.get("DAQ")).toBe(
+      "T64235789",
+    )
+  })
+
+  test("cancels capture after the total timeout", () => {
+    const { clock, advance } = makeFakeClock()
+    const input = new DLIDInputController("", {
+      clock,
+      profile: { charTimeout: 100, totalTimeout: 250, burstInterval: 100 },
+    })
+
+    input.append("@")
+    for (const c of exampleData.substring(1, 3)) {
+      advance(90)
+      input.append(c)
+    }
+    expect(input.getSnapshot().isCapturing).toBe(true)
+
+    advance(90)
+    expect(input.getSnapshot().isCapturing).toBe(false)
+  })
+})
+
+describe("magnetic stripe", () => {
+  const swipe = ";636000123456789=270619900606?\r"
+
+  test("is not captured by default", () => {
+    const { clock } = makeFakeClock()
+    const input = new DLIDInputController("", { clock })
+
+    type(input, "a;b%")
+    expect(input.getSnapshot().isCapturing).toBe(false)
+    expect(input.getSnapshot().value).toBe("a;b%")
+  })
+
+  test("is captured when enabled", () => {
+    const { clock } = makeFakeClock()
+    const input = new DLIDInputController("", {
+      clock,
+      profile: { charTimeout: 200, magStripe: true },
+    })
+
+    type(input, swipe)
+    const state = input.getSnapshot()
+    expect(state.status).toBe("complete")
+    expect(state.result?.subfiles.get("DL")?.get("DAQ")).toBe("123456789")
+  })
+})
+
+describe("burst detection", () => {
+  test("lets typing through", () => {
+    const { clock, advance } = makeFakeClock()
+    const input = new DLIDInputController("", { clock })
+
+    for (const c of "jane@example.com") {
+      input.append(c)
+      advance(120)
+    }
+    expect(input.getSnapshot().value).toBe("jane@example.com")
+    expect(input.getSnapshot().isCapturing).toBe(false)
+  })
+
+  test("undoes a slow capture", () => {
+    const { clock, advance } = makeFakeClock()
+    const input = new DLIDInputController("", { clock })
+    const reasons: string[] = []
+    input.addScanListener({ onScanAbort: (reason) => reasons.push(reason) })
+
+    type(input, "@\n")
+    advance(60)
+    input.append("e")
+    expect(reasons).toStrictEqual(["typing"])
+    expect(input.getSnapshot().value).toBe("@e")
+  })
+
+  test("undoes a capture followed by a slow character", () => {
+    const { clock, advance, timers } = makeFakeClock()
+    const input = new DLIDInputController("", {
+      clock,
+      profile: { charTimeout: 200, burstInterval: 50 },
+    })
+
+    input.append("@")
+    advance(10)
+    input.append("\n")
+    // the timer is late
+    timers.clear()
+    advance(60)
+    input.append("x")
+    expect(input.getSnapshot().value).toBe("@x")
+  })
+
+  test("keeps control characters of slow input out of the value", () => {
+    const { clock, advance } = makeFakeClock()
+    const input = new DLIDInputController("", { clock })
+
+    for (const c of exampleData.substring(0, 10)) {
+      input.append(c)
+      advance(60)
+    }
+    expect(input.getSnapshot()).toMatchObject({
+      isCapturing: false,
+      value: "@ANSI 6",
+    })
+  })
+
+  test("keeps capturing after a confirmed burst", () => {
+    const { clock, advance } = makeFakeClock()
+    const input = new DLIDInputController("", { clock })
+
+    for (const c of exampleData.substring(0, 8)) {
+      input.append(c)
+      advance(10)
+    }
+    advance(100)
+    expect(input.getSnapshot().isCapturing).toBe(true)
+  })
+
+  test("can be disabled", () => {
+    const { clock, advance } = makeFakeClock()
+    const input = new DLIDInputController("", {
+      clock,
+      profile: { charTimeout: 200, burstLength: 0 },
+    })
+
+    input.append("@")
+    advance(150)
+    expect(input.getSnapshot().isCapturing).toBe(true)
+  })
+})
+
+describe("input status", () => {
+  test("reports a completed scan", () => {
+    const { clock } = makeFakeClock()
+    const input = new DLIDInputController("", { clock })
+    const statuses: string[] = []
+    input.subscribe(() => statuses.push(input.getSnapshot().status))
+
+    type(input, exampleData)
+    expect(statuses.filter((s, i) => s != statuses[i - 1])).toStrictEqual([
+      "idle",
+      "capturing",
+      "parsing",
+      "complete",
+    ])
+    expect(input.getSnapshot().raw).toBe(exampleData)
+  })
+
+  test("reports a damaged scan", () => {
+    const { clock, advance } = makeFakeClock()
+    const input = new DLIDInputController("", { clock })
+
+    type(input, exampleData.replace("DL00310025", "DL00290025"))
+    expect(input.getSnapshot().status).toBe("parsing")
+    expect(input.getSnapshot().error?.type).toBe("parse")
+
+    advance(200)
+    const state = input.getSnapshot()
+    expect(state.status).toBe("error")
+    expect(state.error).toStrictEqual({
+      type: "parse",
+      message: "Subfile 'DL' not found at offset 29",
+      position: 29,
+    })
+    expect(state.value).toBe("")
+    expect(state.raw?.substring(0, 5)).toBe("@\n\x1e\rA")
+  })
+
+  test("reports a header error", () => {
+    const { clock } = makeFakeClock()
+    const input = new DLIDInputController("", { clock })
+
+    type(input, "@\n\x1eA")
+    const state = input.getSnapshot()
+    expect(state.status).toBe("error")
+    expect(state.error?.type).toBe("header")
+    expect(state.raw).toBe("@\n\x1eA")
+  })
+
+  test("reports typing as aborted", () => {
+    const { clock, advance } = makeFakeClock()
+    const input = new DLIDInputController("", { clock })
+
+    input.append("@")
+    advance(100)
+    expect(input.getSnapshot().status).toBe("aborted")
+    expect(input.getSnapshot().error).toBeUndefined()
+  })
+})
+
+describe("scan events", () => {
+  const listen = (input: DLIDInputController) => {
+    const events: unknown[][] = []
+    input.addScanListener({
+      onScanStart: () => events.push(["start"]),
+      onScanHeader: (header) => events.push(["header", header.iin]),
+      onScanComplete: (result, raw) =>
+        events.push(["complete", result.header.iin, raw]),
+      onScanAbort: (reason, raw) => events.push(["abort", reason, raw]),
+    })
+    return events
+  }
+
+  test("emits start, header and complete", () => {
+    const { clock } = makeFakeClock()
+    const input = new DLIDInputController("", { clock })
+    const events = listen(input)
+
+    type(input, exampleData)
+    expect(events).toStrictEqual([
+      ["start"],
+      ["header", "636000"],
+      ["complete", "636000", exampleData],
+    ])
+  })
+
+  test("emits abort on timeout", () => {
+    const { clock, advance } = makeFakeClock()
+    const input = new DLIDInputController("", { clock })
+    const events = listen(input)
+
+    type(input, "@\n\x1e\r")
+    advance(200)
+    expect(events).toStrictEqual([["start"], ["abort", "timeout", "@\n\x1e\r"]])
+  })
+
+  test("emits abort on header error", () => {
+    const { clock } = makeFakeClock()
+    const input = new DLIDInputController("", { clock })
+    const events = listen(input)
+
+    type(input, "a@b")
+    expect(events).toStrictEqual([["start"], ["abort", "headerError", "@b"]])
+  })
+
+  test("emits abort on edit", () => {
+    const { clock } = makeFakeClock()
+    const input = new DLIDInputController("", { clock })
+    const events = listen(input)
+
+    input.setValue("a@")
+    input.setValue("x")
+    expect(events).toStrictEqual([["start"], ["abort", "edit", "@"]])
+    expect(input.getSnapshot().value).toBe("x")
+  })
+
+  test("removes listeners", () => {
+    const { clock } = makeFakeClock()
+    const input = new DLIDInputController("", { clock })
+    const events: string[] = []
+    const remove = input.addScanListener({
+      onScanStart: () => events.push("start"),
+    })
+
+    remove()
+    input.append("@")
+    expect(events).toHaveLength(0)
+  })
+})
+
+describe("privacy", () => {
+  test("keeps only allowed elements", () => {
+    const { clock } = makeFakeClock()
+    const input = new DLIDInputController("", {
+      clock,
+      privacy: { allow: ["DCS"] },
+    })
+    const raws: string[] = []
+    input.addScanListener({ onScanComplete: (_, raw) => raws.push(raw) })
+
+    type(input, exampleData)
+    const state = input.getSnapshot()
+    expect(state.status).toBe("complete")
+    expect(state.result?.subfiles.get("DL")).toStrictEqual(
+      new Map([["DCS", "SAMPLE"]]),
+    )
+    expect(state.result?.rawSubfiles.size).toBe(0)
+    expect(state.raw).toBeUndefined()
+    expect(raws).toStrictEqual([""])
+  })
+
+  test("does not restore an aborted scan", () => {
+    const { clock, advance } = makeFakeClock()
+    const input = new DLIDInputController("", {
+      clock,
+      privacy: { allow: [] },
+    })
+    const raws: string[] = []
+    input.addScanListener({ onScanAbort: (_, raw) => raws.push(raw) })
+
+    type(input, exampleData.substring(0, 20))
+    advance(200)
+    const state = input.getSnapshot()
+    expect(state.status).toBe("error")
+    expect(state.value).toBe("")
+    expect(state.raw).toBeUndefined()
+    expect(raws).toStrictEqual([""])
+  })
+
+  test("restores typing", () => {
+    const { clock, advance } = makeFakeClock()
+    const input = new DLIDInputController("", {
+      clock,
+      privacy: { allow: [] },
+    })
+
+    input.append("@")
+    advance(100)
+    expect(input.getSnapshot().value).toBe("@")
+  })
+
+  test("clears the result", () => {
+    const { clock } = makeFakeClock()
+    const input = new DLIDInputController("", { clock })
+
+    type(input, exampleData)
+    input.clearResult()
+    const state = input.getSnapshot()
+    expect(state.result).toBeUndefined()
+    expect(state.raw).toBeUndefined()
+  })
+})
@@ -0,0 +1,594 @@
+/**
+ * Headless DL/ID input controller.
+ *
+ * @packageDocumentation
+ */
+
+import { makeMagStripeParser } from "./magstripe.js"
+import {
+  HeaderParseError,
+  makeDLIDParser,
+  ParseError,
+  type Header,
+  type Parser,
+  type ParseResult,
+} from "./parse.js"
+import { applyPrivacy, type PrivacyOptions } from "./privacy.js"
+import { defaultScannerProfile, type ScannerProfile } from "./profile.js"
+import { EOF, StringIO } from "./stringio.js"
+
+/**
+ * Input status.
+ *
+ * - `idle`: not capturing, and no scan has been captured
+ * - `capturing`: capturing a possible scan
+ * - `parsing`: capturing DL/ID data
+ * - `complete`: the last scan was parsed
+ * - `error`: the last scan failed, see {@link InputState.error}
+ * - `aborted`: the last capture was not a scan
+ */
+export type InputStatus =
+  "idle" | "capturing" | "parsing" | "complete" | "error" | "aborted"
+
+/**
+ * Why a scan failed.
+ *
+ * - `header`: the header is invalid
+ * - `parse`: the data after the header is invalid
+ * - `timeout`: the scan stopped before the data was complete
+ */
+export type InputErrorType = "header" | "parse" | "timeout"
+
+/**
+ * A scan failure.
+ */
+export type InputError = Readonly<{
+  type: InputErrorType
+  message: string
+
+  /**
+   * The position in {@link InputState.raw}.
+   */
+  position: number
+}>
+
+export type InputState = Readonly<{
+  status: InputStatus
+  value: string
+  isCapturing: boolean
+  isParsingDLID: boolean
+  result?: ParseResult | undefined
+
+  /**
+   * The last scan failure.
+   */
+  error?: InputError | undefined
+
+  /**
+   * The raw data of the last capture.
+   */
+  raw?: string | undefined
+}>
+
+/**
+ * A timer handle returned by {@link Clock.setTimeout}.
+ */
+export type TimerHandle = ReturnType<typeof setTimeout>
+
+/**
+ * Timer and clock functions used by the controller.
+ */
+export type Clock = Readonly<{
+  now(): number
+  setTimeout(callback: () => void, ms: number): TimerHandle
+  clearTimeout(handle: TimerHandle): void
+}>
+
+/**
+ * {@link Clock} using the global timer functions.
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => globalThis.setTimeout(callback, ms),
+  clearTimeout: (handle) => globalThis.clearTimeout(handle),
+}
+
+/**
+ * Why a capture was aborted.
+ *
+ * - `timeout`: no input arrived in time
+ * - `typing`: the input was too slow to be a scan
+ * - `headerError`: the captured data is not a DL/ID header
+ * - `edit`: the value was replaced while capturing
+ * - `dispose`: the controller was disposed
+ */
+export type ScanAbortReason =
+  "timeout" | "typing" | "headerError" | "edit" | "dispose"
+
+/**
+ * Scan lifecycle callbacks.
+ */
+export type ScanEventHandlers = Readonly<{
+  /**
+   * Called when capturing starts.
+   */
+  onScanStart?: (() => void) | undefined
+
+  /**
+   * Called when the header of the captured data is recognized.
+   */
+  onScanHeader?: ((header: Header) => void) | undefined
+
+  /**
+   * Called with the result and the raw captured data when a scan completes.
+   */
+  onScanComplete?: ((result: ParseResult, raw: string) => void) | undefined
+
+  /**
+   * Called with the reason and the raw captured data when a capture is
+   * aborted.
+   */
+  onScanAbort?: ((reason: ScanAbortReason, raw: string) => void) | undefined
+}>
+
+/**
+ * {@link DLIDInputController} options.
+ */
+export type DLIDInputControllerOptions = Readonly<{
+  clock?: Clock | undefined
+  profile?: ScannerProfile | undefined
+
+  /**
+   * Keep only allowed elements in the result.
+   *
+   * Data captured from the scanner is then not kept in
+   * {@link InputState.raw} or passed to scan events. Captured typing is
+   * handled as usual.
+   */
+  privacy?: PrivacyOptions | undefined
+}>
+
+const DEFAULT_BURST_INTERVAL = 50
+const DEFAULT_BURST_LENGTH = 4
+
+const CONTROL_CHARS = /[\x00-\x1f\x7f]/g
+
+const stripControlChars = (value: string): string =>
+  value.replace(CONTROL_CHARS, "")
+
+const DLID_TRIGGER = "@"
+const MAG_STRIPE_TRIGGERS = "%;"
+
+const isTrigger = (c: string, magStripe: boolean): boolean =>
+  c.length == 1 &&
+  (c == DLID_TRIGGER || (magStripe && MAG_STRIPE_TRIGGERS.includes(c)))
+
+const makeParser = (
+  trigger: string,
+  reader: StringIO,
+  privacy: PrivacyOptions | undefined,
+): Parser =>
+  trigger == DLID_TRIGGER
+    ? makeDLIDParser(reader, { privacy })
+    : makeMagStripeParser(reader)
+
+/**
+ * Input state machine that captures DL/ID scans from a stream of characters.
+ *
+ * Characters are appended to the value until a scan trigger is seen, then
+ * captured and parsed until the scan completes or times out. Control
+ * characters are not kept in the value.
+ */
+export class DLIDInputController {
+  private parser: Parser | undefined = undefined
+  private reader: StringIO
+  private state: InputState
+  private clock: Clock
+  private profile: ScannerProfile
+  private privacy: PrivacyOptions | undefined
+  private timeout: TimerHandle | undefined = undefined
+  private captureDeadline: number | undefined = undefined
+  // text removed from the value when capturing started
+  private capturePrefix = ""
+  // number of captured characters also left in the value
+  private captureOverlap = 0
+  private pendingSuffix = ""
+  private headerRecognized = false
+  // whether the capture is known to be a scan, not typing
+  private burstConfirmed = false
+  private burstCount = 0
+  private lastCharTime = 0
+
+  private observers: (() => void)[] = []
+  private scanListeners: ScanEventHandlers[] = []
+
+  constructor(initialData?: string, options: DLIDInputControllerOptions = {}) {
+    this.reader = new StringIO("")
+    this.clock = options.clock ?? systemClock
+    this.profile = options.profile ?? defaultScannerProfile
+    this.privacy = options.privacy
+    this.state = {
+      status: "idle",
+      isCapturing: false,
+      isParsingDLID: false,
+      value: initialData || "",
+    }
+  }
+
+  private update(action: Partial<InputState>) {
+    this.state = { ...this.state, ...action }
+    this.observers.forEach((cb) => cb())
+  }
+
+  private startCapturing(trigger: string) {
+    if (this.profile.prefix) {
+      this.capturePrefix = trigger
+      this.captureOverlap = 0
+    } else {
+      this.reader.append(trigger)
+      this.parser = makeParser(trigger, this.reader, this.privacy)
+      this.capturePrefix = ""
+      this.captureOverlap = trigger.length
+    }
+
+    this.captureDeadline =
+      this.profile.totalTimeout != null
+        ? this.clock.now() + this.profile.totalTimeout
+        : undefined
+    this.headerRecognized = false
+    this.burstCount = 0
+    this.burstConfirmed = false
+    this.countBurst(trigger)
+    this.update({
+      status: "capturing",
+      isCapturing: true,
+      error: undefined,
+      raw: undefined,
+    })
+    this.resetTimeout()
+    this.scanListeners.forEach((l) => l.onScanStart?.())
+  }
+
+  private countBurst(value: string) {
+    this.burstCount += value.length
+    this.lastCharTime = this.clock.now()
+    if (this.burstCount >= (this.profile.burstLength ?? DEFAULT_BURST_LENGTH)) {
+      this.burstConfirmed = true
+    }
+  }
+
+  private get burstInterval(): number {
+    return this.profile.burstInterval ?? DEFAULT_BURST_INTERVAL
+  }
+
+  private recognizeHeader(header: Header | undefined) {
+    if (header && !this.headerRecognized) {
+      this.headerRecognized = true
+      this.scanListeners.forEach((l) => l.onScanHeader?.(header))
+    }
+  }
+
+  private resetReader() {
+    // drop the captured data
+    this.reader.clear()
+    this.reader = new StringIO("")
+    this.parser = undefined
+  }
+
+  private clearTimeout() {
+    if (this.timeout != null) {
+      this.clock.clearTimeout(this.timeout)
+    }
+    this.timeout = undefined
+  }
+
+  private cancelCapturing(reason: ScanAbortReason, error?: InputError) {
+    this.clearTimeout()
+    this.captureDeadline = undefined
+
+    if (this.state.isCapturing) {
+      const hidden = this.privacy != null && this.burstConfirmed
+      const raw = this.capturePrefix + this.reader.data
+      const { value } = this.state
+      // typed text is restored, a failed scan is only reported
+      const newVal = this.burstConfirmed
+        ? value.substring(0, value.length - this.captureOverlap)
+        : value +
+          stripControlChars(
+            this.capturePrefix +
+              this.reader.data.substring(this.captureOverlap),
+          )
+
+      if (reason == "timeout") {
+        error = this.state.error ?? {
+          type: "timeout",
+          message: "Scan incomplete",
+          position: raw.length,
+        }
+      }
+      // only a confirmed scanner burst is a failed scan
+      const status = error && this.burstConfirmed ? "error" : "aborted"
+
+      this.resetReader()
+      this.update({
+        status,
+        value: newVal,
+        isCapturing: false,
+        isParsingDLID: false,
+        result: undefined,
+        error,
+        raw: hidden ? undefined : raw,
+      })
+      const eventRaw = hidden ? "" : raw
+      this.scanListeners.forEach((l) => l.onScanAbort?.(reason, eventRaw))
+    }
+  }
+
+  private completeCapturing(parsed: ParseResult) {
+    this.clearTimeout()
+    this.captureDeadline = undefined
+
+    const result = this.privacy ? applyPrivacy(parsed, this.privacy) : parsed
+    const raw = this.privacy ? "" : this.reader.data
+    this.recognizeHeader(result.header)
+    this.resetReader()
+    this.update({
+      status: "complete",
+      isCapturing: false,
+      isParsingDLID: false,
+      result,
+      error: undefined,
+      raw: this.privacy ? undefined : raw,
+    })
+
+    if (this.profile.suffix) {
+      this.pendingSuffix = this.profile.suffix
+      this.resetTimeout()
+    }
+
+    this.scanListeners.forEach((l) => l.onScanComplete?.(result, raw))
+  }
+
+  private resetTimeout() {
+    this.clearTimeout()
+    const charTimeout =
+      this.state.isCapturing && !this.burstConfirmed
+        ? this.burstInterval
+        : this.profile.charTimeout
+    const timeout =
+      this.captureDeadline != null
+        ? Math.min(charTimeout, this.captureDeadline - this.clock.now())
+        : charTimeout
+    this.timeout = this.clock.setTimeout(this.handleTimeout, timeout)
+  }
+
+  private handleTimeout = () => {
+    this.timeout = undefined
+    this.pendingSuffix = ""
+    this.cancelCapturing(this.burstConfirmed ? "timeout" : "typing")
+  }
+
+  private remap(value: string): string {
+    const remap = this.profile.remap
+    if (!remap) {
+      return value
+    }
+    return Array.from(value, (c) => remap[c] ?? c).join("")
+  }
+
+  /**
+   * Remove the expected suffix from input following a scan.
+   */
+  private consumeSuffix(value: string): string {
+    let i = 0
+    while (
+      i < value.length &&
+      i < this.pendingSuffix.length &&
+      value.charAt(i) == this.pendingSuffix.charAt(i)
+    ) {
+      i++
+    }
+
+    this.pendingSuffix =
+      i == value.length ? this.pendingSuffix.substring(i) : ""
+    if (!this.pendingSuffix) {
+      this.clearTimeout()
+    }
+    return value.substring(i)
+  }
+
+  private parse() {
+    if (!this.parser) {
+      // prefix seen, choose the parser from the first payload character
+      const first = this.reader.data.charAt(0)
+      if (!isTrigger(first, this.profile.magStripe ?? false)) {
+        this.cancelCapturing("headerError", {
+          type: "header",
+          message: "Invalid scan start",
+          position: this.capturePrefix.length,
+        })
+        return
+      }
+      this.parser = makeParser(first, this.reader, this.privacy)
+    }
+
+    try {
+      const res = this.parser.parse()
+      this.completeCapturing(res)
+    } catch (e) {
+      if (e instanceof EOF) {
+        // continue reading
+        this.resetTimeout()
+        this.recognizeHeader(this.parser.header)
+
+        if (this.reader.length >= 4 && !this.state.isParsingDLID) {
+          this.update({ status: "parsing", isParsingDLID: true })
+        }
+      } else if (e instanceof HeaderParseError) {
+        // failed parsing part of DLID header, bail out
+        this.cancelCapturing("headerError", this.makeError("header", e))
+      } else if (e instanceof ParseError) {
+        // keep reading until the timeout, the data may still complete
+        this.resetTimeout()
+        this.recognizeHeader(this.parser.header)
+        if (!this.state.error) {
+          this.update({ error: this.makeError("parse", e) })
+        }
+      } else {
+        throw e
+      }
+    }
+  }
+
+  private makeError(type: InputErrorType, e: ParseError): InputError {
+    return {
+      type,
+      message: e.message,
+      position: this.capturePrefix.length + (e.offset ?? this.reader.pos),
+    }
+  }
+
+  /**
+   * Append input characters.
+   *
+   * @param value - The characters as typed
+   * @param scanned - The characters the scanner sent, when its keyboard
+   *   layout differs from the host's. They are captured, while the typed
+   *   characters are kept if the capture is undone.
+   */
+  append = (value: string, scanned = value) => {
+    if (
+      this.state.isCapturing &&
+      !this.burstConfirmed &&
+      value &&
+      this.clock.now() - this.lastCharTime > this.burstInterval
+    ) {
+      // too slow for a scanner
+      this.cancelCapturing("typing")
+    }
+
+    if (this.state.isCapturing) {
+      if (scanned) {
+        this.countBurst(scanned)
+        this.reader.append(this.remap(scanned))
+        this.parse()
+      }
+    } else {
+      if (this.pendingSuffix) {
+        value = this.consumeSuffix(value)
+        if (!value) {
+          return
+        }
+        scanned = value
+      }
+
+      const newVal = this.state.value + value
+      const prefix = this.profile.prefix
+
+      if (prefix) {
+        if (newVal.endsWith(prefix)) {
+          // start parsing
+          this.update({
+            value: stripControlChars(
+              newVal.substring(0, newVal.length - prefix.length),
+            ),
+          })
+          this.startCapturing(prefix)
+        } else {
+          this.update({ value: stripControlChars(newVal) })
+        }
+      } else {
+        // e.g. from a scanner too slow to be captured
+        this.update({ value: stripControlChars(newVal) })
+
+        const checked = value ? scanned : newVal
+        const last = checked.charAt(checked.length - 1)
+        if (isTrigger(last, this.profile.magStripe ?? false)) {
+          // start parsing
+          this.startCapturing(last)
+        }
+      }
+    }
+  }
+
+  /**
+   * Whether the current capture is known to be a scan, not typing.
+   */
+  isScanConfirmed = (): boolean => this.state.isCapturing && this.burstConfirmed
+
+  /**
+   * Set the input value, e.g. from an input element's change event.
+   */
+  setValue = (v: string) => {
+    if (v.startsWith(this.state.value)) {
+      const added = v.substring(this.state.value.length)
+      this.append(added)
+    } else {
+      this.cancelCapturing("edit")
+      this.update({ value: "" })
+      this.append(v)
+    }
+  }
+
+  /**
+   * Get the current {@link InputState}.
+   */
+  getSnapshot = (): InputState => {
+    return this.state
+  }
+
+  /**
+   * Subscribe to state changes.
+   *
+   * @returns A function to unsubscribe
+   */
+  subscribe = (cb: () => void): (() => void) => {
+    const unsub = () => {
+      const idx = this.observers.indexOf(cb)
+      if (idx != -1) {
+        this.observers.splice(idx, 1)
+      }
+    }
+
+    this.observers.push(cb)
+
+    return unsub
+  }
+
+  /**
+   * Remove the last result, error and raw data from the state.
+   */
+  clearResult = () => {
+    this.update({ result: undefined, error: undefined, raw: undefined })
+  }
+
+  /**
+   * Add scan lifecycle callbacks.
+   *
+   * @returns A function to remove the callbacks
+   */
+  addScanListener = (handlers: ScanEventHandlers): (() => void) => {
+    const remove = () => {
+      const idx = this.scanListeners.indexOf(handlers)
+      if (idx != -1) {
+        this.scanListeners.splice(idx, 1)
+      }
+    }
+
+    this.scanListeners.push(handlers)
+
+    return remove
+  }
+
+  /**
+   * Cancel any capture in progress and its timer, and remove all subscribers
+   * and scan listeners.
+   *
+   * The controller may still be used afterwards.
+   */
+  dispose = () => {
+    this.cancelCapturing("dispose")
+    this.observers = []
+    this.scanListeners = []
+  }
+}
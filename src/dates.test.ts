@@ -0,0 +1,115 @@
+import { describe, expect, test } from "vitest"
+import {
+  addDays,
+  compareDates,
+  getCalendarDate,
+  getDateFormat,
+  isValidDate,
+  parseDate,
+  resolveDate,
+  resolveDateElement,
+} from "./dates.js"
+import { makeHeader, makeResult } from "./test-helpers.js"
+
+describe("dates", () => {
+  test("parses MMDDCCYY", () => {
+    expect(parseDate("06072006", "MMDDCCYY")).toStrictEqual({
+      year: 2006,
+      month: 6,
+      day: 7,
+    })
+  })
+
+  test("parses CCYYMMDD", () => {
+    expect(parseDate("20060607", "CCYYMMDD")).toStrictEqual({
+      year: 2006,
+      month: 6,
+      day: 7,
+    })
+  })
+
+  test("rejects impossible dates", () => {
+    expect(parseDate("02302006", "MMDDCCYY")).toBeUndefined()
+    expect(parseDate("13012006", "MMDDCCYY")).toBeUndefined()
+    expect(parseDate("0601200", "MMDDCCYY")).toBeUndefined()
+    expect(parseDate("0601200X", "MMDDCCYY")).toBeUndefined()
+    expect(parseDate("02292000", "MMDDCCYY")).toBeDefined()
+    expect(parseDate("02291900", "MMDDCCYY")).toBeUndefined()
+    expect(isValidDate({ year: 2024, month: 2, day: 29 })).toBe(true)
+  })
+
+  test("selects format by country", () => {
+    const header = makeHeader({ aamvaVersion: "08" })
+    expect(getDateFormat(header, new Map([["DCG", "CAN"]]))).toStrictEqual({
+      format: "CCYYMMDD",
+      rule: "country",
+    })
+    expect(getDateFormat(header, new Map([["DCG", "USA"]]))).toStrictEqual({
+      format: "MMDDCCYY",
+      rule: "country",
+    })
+  })
+
+  test("selects format by version", () => {
+    expect(
+      getDateFormat(makeHeader({ aamvaVersion: "01" }), new Map()),
+    ).toStrictEqual({
+      format: "CCYYMMDD",
+      rule: "version",
+    })
+    expect(
+      getDateFormat(makeHeader({ aamvaVersion: "10" }), new Map()),
+    ).toStrictEqual({
+      format: "MMDDCCYY",
+      rule: "version",
+    })
+  })
+
+  test("falls back to the other format", () => {
+    expect(
+      resolveDate(makeHeader({ aamvaVersion: "10" }), new Map(), "19991231"),
+    ).toStrictEqual({
+      date: { year: 1999, month: 12, day: 31 },
+      format: "CCYYMMDD",
+      rule: "fallback",
+    })
+  })
+
+  test("resolves date elements", () => {
+    const result = makeResult(
+      { DL: { DCG: "CAN", DBB: "19800115" } },
+      { aamvaVersion: "10" },
+    )
+
+    expect(resolveDateElement(result, "DBB")).toStrictEqual({
+      date: { year: 1980, month: 1, day: 15 },
+      format: "CCYYMMDD",
+      rule: "country",
+    })
+    expect(resolveDateElement(result, "DBA")).toBeUndefined()
+    expect(resolveDateElement(result, "DBB", "ZC")).toBeUndefined()
+  })
+
+  test("compares and adds dates", () => {
+    const date = { year: 2024, month: 2, day: 28 }
+    expect(addDays(date, 1)).toStrictEqual({ year: 2024, month: 2, day: 29 })
+    expect(addDays(date, 2)).toStrictEqual({ year: 2024, month: 3, day: 1 })
+    expect(compareDates(date, addDays(date, 1))).toBeLessThan(0)
+    expect(compareDates(addDays(date, 366), date)).toBeGreaterThan(0)
+    expect(compareDates(date, { ...date })).toBe(0)
+  })
+
+  test("gets calendar date in time zone", () => {
+    const now = new Date("2024-01-01T03:00:00Z")
+    expect(getCalendarDate(now, "UTC")).toStrictEqual({
+      year: 2024,
+      month: 1,
+      day: 1,
+    })
+    expect(getCalendarDate(now, "America/Los_Angeles")).toStrictEqual({
+      year: 2023,
+      month: 12,
+      day: 31,
+    })
+  })
+})
@@ -0,0 +1,208 @@
+/**
+ * AAMVA date element parsing.
+ *
+ * @packageDocumentation
+ */
+
+import type { Header, ParseResult, SubfileData } from "./parse.js"
+
+/**
+ * A calendar date.
+ */
+export type CalendarDate = Readonly<{
+  year: number
+  month: number
+  day: number
+}>
+
+/**
+ * Date element layout.
+ */
+export type DateFormat = "MMDDCCYY" | "CCYYMMDD"
+
+/**
+ * The rule used to pick a {@link DateFormat}.
+ *
+ * - `country` - chosen from the DCG country element
+ * - `version` - chosen from the AAMVA version in the header
+ * - `fallback` - the preferred format was not a valid date, the other one was
+ */
+export type DateFormatRule = "country" | "version" | "fallback"
+
+/**
+ * A resolved date element.
+ */
+export type ResolvedDate = Readonly<{
+  date: CalendarDate
+  format: DateFormat
+  rule: DateFormatRule
+}>
+
+const datePattern = /^\d{8}$/
+
+const isLeapYear = (year: number): boolean =>
+  (year % 4 == 0 && year % 100 != 0) || year % 400 == 0
+
+const getDaysInMonth = (year: number, month: number): number => {
+  if (month == 2) {
+    return isLeapYear(year) ? 29 : 28
+  } else if (month == 4 || month == 6 || month == 9 || month == 11) {
+    return 30
+  } else {
+    return 31
+  }
+}
+
+/**
+ * Check whether a {@link CalendarDate} is a real date.
+ */
+export const isValidDate = (date: CalendarDate): boolean =>
+  Number.isInteger(date.year) &&
+  Number.isInteger(date.month) &&
+  Number.isInteger(date.day) &&
+  date.year > 0 &&
+  date.month >= 1 &&
+  date.month <= 12 &&
+  date.day >= 1 &&
+  date.day <= getDaysInMonth(date.year, date.month)
+
+/**
+ * Compare two dates.
+ *
+ * @returns A negative number if a is before b, positive if after, or 0
+ */
+export const compareDates = (a: CalendarDate, b: CalendarDate): number =>
+  a.year - b.year || a.month - b.month || a.day - b.day
+
+/**
+ * Add a number of days to a date.
+ */
+export const addDays = (date: CalendarDate, days: number): CalendarDate => {
+  const d = new Date(Date.UTC(date.year, date.month - 1, date.day + days))
+  return {
+    year: d.getUTCFullYear(),
+    month: d.getUTCMonth() + 1,
+    day: d.getUTCDate(),
+  }
+}
+
+/**
+ * Get the calendar date of a point in time in a time zone.
+ *
+ * @param date - The point in time
+ * @param timeZone - An IANA time zone name, defaults to the local time zone
+ */
+export const getCalendarDate = (
+  date: Date,
+  timeZone?: string,
+): CalendarDate => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+  }).formatToParts(date)
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find((p) => p.type == type)?.value ?? "", 10)
+  return { year: get("year"), month: get("month"), day: get("day") }
+}
+
+/**
+ * Parse a date string in the given format.
+ *
+ * @returns The date, or undefined if the value is not a valid date
+ */
+export const parseDate = (
+  value: string,
+  format: DateFormat,
+): CalendarDate | undefined => {
+  if (!datePattern.test(value)) {
+    return undefined
+  }
+
+  const date =
+    format == "MMDDCCYY"
+      ? {
+          month: parseInt(value.substring(0, 2), 10),
+          day: parseInt(value.substring(2, 4), 10),
+          year: parseInt(value.substring(4, 8), 10),
+        }
+      : {
+          year: parseInt(value.substring(0, 4), 10),
+          month: parseInt(value.substring(4, 6), 10),
+          day: parseInt(value.substring(6, 8), 10),
+        }
+
+  return isValidDate(date) ? date : undefined
+}
+
+/**
+ * Get the date format used by a subfile.
+ *
+ * The DCG country element takes precedence. Cards without it use CCYYMMDD
+ * for AAMVA version 01 and MMDDCCYY otherwise.
+ */
+export const getDateFormat = (
+  header: Header,
+  data: SubfileData,
+): Readonly<{ format: DateFormat; rule: DateFormatRule }> => {
+  const country = data.get("DCG")?.trim()
+  if (country == "CAN") {
+    return { format: "CCYYMMDD", rule: "country" }
+  } else if (country == "USA") {
+    return { format: "MMDDCCYY", rule: "country" }
+  }
+
+  const version = parseInt(header.aamvaVersion, 10)
+  if (isNaN(version) || version <= 1) {
+    return { format: "CCYYMMDD", rule: "version" }
+  } else {
+    return { format: "MMDDCCYY", rule: "version" }
+  }
+}
+
+/**
+ * Resolve a date value using the header and subfile context.
+ *
+ * @returns The resolved date, or undefined if the value is not a valid date
+ */
+export const resolveDate = (
+  header: Header,
+  data: SubfileData,
+  value: string,
+): ResolvedDate | undefined => {
+  const { format, rule } = getDateFormat(header, data)
+  const date = parseDate(value, format)
+  if (date) {
+    return { date, format, rule }
+  }
+
+  const otherFormat = format == "MMDDCCYY" ? "CCYYMMDD" : "MMDDCCYY"
+  const otherDate = parseDate(value, otherFormat)
+  if (otherDate) {
+    return { date: otherDate, format: otherFormat, rule: "fallback" }
+  }
+}
+
+/**
+ * Resolve a date element from a subfile of a {@link ParseResult}.
+ *
+ * @param result - The parse result
+ * @param elementId - The date element ID, e.g. "DBB"
+ * @param subfileType - The subfile type, defaults to the DL or ID subfile
+ * @returns The resolved date, or undefined if missing or invalid
+ */
+export const resolveDateElement = (
+  result: ParseResult,
+  elementId: string,
+  subfileType?: string,
+): ResolvedDate | undefined => {
+  const data =
+    subfileType != null
+      ? result.subfiles.get(subfileType)
+      : (result.subfiles.get("DL") ?? result.subfiles.get("ID"))
+  const value = data?.get(elementId)?.trim()
+  if (data && value) {
+    return resolveDate(result.header, data, value)
+  }
+}
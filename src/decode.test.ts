@@ -0,0 +1,205 @@
+import { describe, expect, test } from "vitest"
+import { decodeDLID, getElementMapping } from "./decode.js"
+import { makeResult } from "./test-helpers.js"
+
+describe("decode", () => {
+  test("decodes current version", () => {
+    const res = decodeDLID(
+      makeResult({
+        DL: {
+          DAQ: "T64235789",
+          DCS: "SAMPLE",
+          DDE: "N",
+          DAC: "MICHAEL",
+          DDF: "N",
+          DAD: "JOHN",
+          DDG: "T",
+          DCU: "JR",
+          DCA: "D",
+          DCB: "K",
+          DCD: "PH",
+          DBD: "06062022",
+          DBB: "06062006",
+          DBA: "06062027",
+          DBC: "1",
+          DAU: "068 in",
+          DAY: "BRO",
+          DAG: "2300 WEST BROAD STREET",
+          DAI: "RICHMOND",
+          DAJ: "VA",
+          DAK: "232690000 ",
+          DCG: "USA",
+          DDA: "F",
+          DDJ: "06062027",
+          DDD: "1",
+        },
+      }),
+    )
+
+    expect(res).toStrictEqual({
+      aamvaVersion: "11",
+      name: {
+        full: undefined,
+        family: "SAMPLE",
+        first: "MICHAEL",
+        middle: "JOHN",
+        suffix: "JR",
+        familyTruncation: "none",
+        firstTruncation: "none",
+        middleTruncation: "truncated",
+      },
+      dateOfBirth: { year: 2006, month: 6, day: 6 },
+      under18Until: undefined,
+      under19Until: undefined,
+      under21Until: { year: 2027, month: 6, day: 6 },
+      physical: {
+        sex: "male",
+        eyeColor: "BRO",
+        hairColor: undefined,
+        height: { value: 68, unit: "in" },
+        weight: undefined,
+      },
+      address: {
+        street1: "2300 WEST BROAD STREET",
+        street2: undefined,
+        city: "RICHMOND",
+        jurisdiction: "VA",
+        postalCode: "232690000",
+        country: "USA",
+      },
+      document: {
+        type: "DL",
+        number: "T64235789",
+        discriminator: undefined,
+        inventoryControlNumber: undefined,
+        vehicleClass: "D",
+        restrictions: "K",
+        endorsements: "PH",
+        issueDate: { year: 2022, month: 6, day: 6 },
+        expirationDate: { year: 2027, month: 6, day: 6 },
+        revisionDate: undefined,
+      },
+      compliance: {
+        complianceType: "compliant",
+        limitedDuration: true,
+        organDonor: false,
+        veteran: false,
+      },
+    })
+  })
+
+  test("decodes given names in version 03", () => {
+    const res = decodeDLID(
+      makeResult(
+        {
+          ID: {
+            DCS: "SAMPLE",
+            DCT: "MICHAEL,JOHN",
+            DCA: "C",
+          },
+        },
+        { aamvaVersion: "03" },
+      ),
+    )
+
+    expect(res?.document.type).toBe("ID")
+    expect(res?.document.vehicleClass).toBe("C")
+    expect(res?.name.family).toBe("SAMPLE")
+    expect(res?.name.first).toBe("MICHAEL")
+    expect(res?.name.middle).toBe("JOHN")
+  })
+
+  test("decodes version 01 elements", () => {
+    const res = decodeDLID(
+      makeResult(
+        {
+          DL: {
+            DAB: "SAMPLE",
+            DAC: "MICHAEL",
+            DAR: "D",
+            DBC: "F",
+            DAV: "175",
+            DAX: "70",
+          },
+        },
+        { aamvaVersion: "01" },
+      ),
+    )
+
+    expect(res?.name.family).toBe("SAMPLE")
+    expect(res?.name.first).toBe("MICHAEL")
+    expect(res?.document.vehicleClass).toBe("D")
+    expect(res?.physical.sex).toBe("female")
+    expect(res?.physical.height).toStrictEqual({ value: 175, unit: "cm" })
+    expect(res?.physical.weight).toStrictEqual({ value: 70, unit: "kg" })
+  })
+
+  test("decodes full name", () => {
+    const res = decodeDLID(
+      makeResult(
+        {
+          DL: {
+            DAA: "SAMPLE,MICHAEL,JOHN",
+          },
+        },
+        { aamvaVersion: "01" },
+      ),
+    )
+
+    expect(res?.name.full).toBe("SAMPLE,MICHAEL,JOHN")
+    expect(res?.name.family).toBe("SAMPLE")
+    expect(res?.name.first).toBe("MICHAEL")
+    expect(res?.name.middle).toBe("JOHN")
+  })
+
+  test("decodes full name with dollar separators", () => {
+    const res = decodeDLID(
+      makeResult(
+        {
+          DL: {
+            DAA: "SAMPLE$MICHAEL",
+          },
+        },
+        { aamvaVersion: "01" },
+      ),
+    )
+
+    expect(res?.name.family).toBe("SAMPLE")
+    expect(res?.name.first).toBe("MICHAEL")
+    expect(res?.name.middle).toBeUndefined()
+  })
+
+  test("decodes Canadian dates", () => {
+    const res = decodeDLID(
+      makeResult(
+        {
+          DL: {
+            DCG: "CAN",
+            DBB: "19800115",
+            DBA: "20300115",
+          },
+        },
+        { aamvaVersion: "08" },
+      ),
+    )
+
+    expect(res?.dateOfBirth).toStrictEqual({ year: 1980, month: 1, day: 15 })
+    expect(res?.document.expirationDate).toStrictEqual({
+      year: 2030,
+      month: 1,
+      day: 15,
+    })
+  })
+
+  test("returns undefined without a DL or ID subfile", () => {
+    expect(decodeDLID(makeResult({ ZV: { ZVA: "01" } }))).toBeUndefined()
+  })
+
+  test("selects element mapping by version", () => {
+    expect(getElementMapping("01").familyName).toBe("DAB")
+    expect(getElementMapping("02").givenNames).toBe("DCT")
+    expect(getElementMapping("03").givenNames).toBe("DCT")
+    expect(getElementMapping("04").firstName).toBe("DAC")
+    expect(getElementMapping("10").familyName).toBe("DCS")
+  })
+})
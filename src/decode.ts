@@ -0,0 +1,362 @@
+/**
+ * Decoding of DL/ID subfile elements into structured license holder data.
+ *
+ * @packageDocumentation
+ */
+
+import { resolveDate, type CalendarDate } from "./dates.js"
+import type { Header, ParseResult, SubfileData } from "./parse.js"
+
+/**
+ * Sex of the cardholder.
+ */
+export type Sex = "male" | "female" | "unspecified"
+
+/**
+ * Whether a name field was truncated.
+ */
+export type Truncation = "truncated" | "none" | "unknown"
+
+/**
+ * Cardholder height.
+ */
+export type Height = Readonly<{
+  value: number
+  unit: "in" | "cm"
+}>
+
+/**
+ * Cardholder weight.
+ */
+export type Weight = Readonly<{
+  value: number
+  unit: "lb" | "kg"
+}>
+
+/**
+ * Cardholder name.
+ */
+export type DLIDName = Readonly<{
+  full?: string | undefined
+  family?: string | undefined
+  first?: string | undefined
+  middle?: string | undefined
+  suffix?: string | undefined
+  familyTruncation: Truncation
+  firstTruncation: Truncation
+  middleTruncation: Truncation
+}>
+
+/**
+ * Cardholder address.
+ */
+export type DLIDAddress = Readonly<{
+  street1?: string | undefined
+  street2?: string | undefined
+  city?: string | undefined
+  jurisdiction?: string | undefined
+  postalCode?: string | undefined
+  country?: string | undefined
+}>
+
+/**
+ * Cardholder physical description.
+ */
+export type DLIDPhysicalDescription = Readonly<{
+  sex?: Sex | undefined
+  eyeColor?: string | undefined
+  hairColor?: string | undefined
+  height?: Height | undefined
+  weight?: Weight | undefined
+}>
+
+/**
+ * Document details.
+ */
+export type DLIDDocument = Readonly<{
+  type: "DL" | "ID"
+  number?: string | undefined
+  discriminator?: string | undefined
+  inventoryControlNumber?: string | undefined
+  vehicleClass?: string | undefined
+  restrictions?: string | undefined
+  endorsements?: string | undefined
+  issueDate?: CalendarDate | undefined
+  expirationDate?: CalendarDate | undefined
+  revisionDate?: CalendarDate | undefined
+}>
+
+/**
+ * Compliance and status flags.
+ */
+export type DLIDCompliance = Readonly<{
+  complianceType?: "compliant" | "noncompliant" | undefined
+  limitedDuration: boolean
+  organDonor: boolean
+  veteran: boolean
+}>
+
+/**
+ * Decoded DL/ID data.
+ */
+export type DecodedDLID = Readonly<{
+  aamvaVersion: string
+  name: DLIDName
+  dateOfBirth?: CalendarDate | undefined
+  under18Until?: CalendarDate | undefined
+  under19Until?: CalendarDate | undefined
+  under21Until?: CalendarDate | undefined
+  physical: DLIDPhysicalDescription
+  address: DLIDAddress
+  document: DLIDDocument
+  compliance: DLIDCompliance
+}>
+
+/**
+ * Element IDs for fields that differ between AAMVA versions.
+ */
+export type ElementMapping = Readonly<{
+  fullName?: string | undefined
+  familyName: string
+  firstName?: string | undefined
+  middleName?: string | undefined
+  givenNames?: string | undefined
+  suffix: string
+  vehicleClass: string
+  restrictions: string
+  endorsements: string
+}>
+
+const mappingV01: ElementMapping = {
+  fullName: "DAA",
+  familyName: "DAB",
+  firstName: "DAC",
+  middleName: "DAD",
+  suffix: "DAE",
+  vehicleClass: "DAR",
+  restrictions: "DAS",
+  endorsements: "DAT",
+}
+
+const mappingV02: ElementMapping = {
+  fullName: "DAA",
+  familyName: "DCS",
+  givenNames: "DCT",
+  suffix: "DCU",
+  vehicleClass: "DCA",
+  restrictions: "DCB",
+  endorsements: "DCD",
+}
+
+const mappingCurrent: ElementMapping = {
+  familyName: "DCS",
+  firstName: "DAC",
+  middleName: "DAD",
+  suffix: "DCU",
+  vehicleClass: "DCA",
+  restrictions: "DCB",
+  endorsements: "DCD",
+}
+
+/**
+ * Get the {@link ElementMapping} for an AAMVA version.
+ */
+export const getElementMapping = (aamvaVersion: string): ElementMapping => {
+  const version = parseInt(aamvaVersion, 10)
+  if (isNaN(version) || version <= 1) {
+    return mappingV01
+  } else if (version <= 3) {
+    return mappingV02
+  } else {
+    return mappingCurrent
+  }
+}
+
+const parseSex = (value: string | undefined): Sex | undefined => {
+  switch (value) {
+    case "1":
+    case "M":
+      return "male"
+    case "2":
+    case "F":
+      return "female"
+    case "9":
+    case "X":
+      return "unspecified"
+    default:
+      return undefined
+  }
+}
+
+const parseTruncation = (value: string | undefined): Truncation => {
+  switch (value) {
+    case "T":
+      return "truncated"
+    case "N":
+      return "none"
+    default:
+      return "unknown"
+  }
+}
+
+const measurementPattern = /^(\d+)\s*([a-zA-Z]*)$/
+
+const parseHeight = (
+  inches: string | undefined,
+  centimeters: string | undefined,
+): Height | undefined => {
+  const match = measurementPattern.exec(inches ?? centimeters ?? "")
+  if (!match) {
+    return undefined
+  }
+  const value = parseInt(match[1] ?? "", 10)
+  const unit = match[2]?.toLowerCase()
+  if (unit == "cm" || (!unit && inches == null)) {
+    return { value, unit: "cm" }
+  } else {
+    return { value, unit: "in" }
+  }
+}
+
+const parseWeight = (
+  pounds: string | undefined,
+  kilograms: string | undefined,
+): Weight | undefined => {
+  if (pounds != null) {
+    const value = parseInt(pounds, 10)
+    return isNaN(value) ? undefined : { value, unit: "lb" }
+  } else if (kilograms != null) {
+    const value = parseInt(kilograms, 10)
+    return isNaN(value) ? undefined : { value, unit: "kg" }
+  }
+}
+
+const getValue = (
+  data: SubfileData,
+  id: string | undefined,
+): string | undefined => {
+  if (id == null) {
+    return undefined
+  }
+  const value = data.get(id)?.trim()
+  return value ? value : undefined
+}
+
+const getDate = (
+  header: Header,
+  data: SubfileData,
+  id: string,
+): CalendarDate | undefined => {
+  const value = getValue(data, id)
+  return value != null ? resolveDate(header, data, value)?.date : undefined
+}
+
+// full names are "FAMILY,FIRST,MIDDLE", some jurisdictions use "$"
+const fullNameSeparatorPattern = /[,$]/
+
+const decodeName = (data: SubfileData, mapping: ElementMapping): DLIDName => {
+  const full = getValue(data, mapping.fullName)
+  let family = getValue(data, mapping.familyName)
+  let first = getValue(data, mapping.firstName)
+  let middle = getValue(data, mapping.middleName)
+
+  if (full != null && family == null && fullNameSeparatorPattern.test(full)) {
+    const [fullFamily, fullFirst, ...fullMiddle] = full
+      .split(fullNameSeparatorPattern)
+      .map((part) => part.trim())
+    family = fullFamily || undefined
+    first = first ?? (fullFirst || undefined)
+    middle = middle ?? (fullMiddle.join(" ").trim() || undefined)
+  }
+
+  const givenNames = getValue(data, mapping.givenNames)
+  if (givenNames != null) {
+    const sepIdx = givenNames.indexOf(",")
+    if (sepIdx == -1) {
+      first = givenNames
+    } else {
+      first = givenNames.substring(0, sepIdx).trim() || undefined
+      middle = givenNames.substring(sepIdx + 1).trim() || undefined
+    }
+  }
+
+  return {
+    full,
+    family,
+    first,
+    middle,
+    suffix: getValue(data, mapping.suffix),
+    familyTruncation: parseTruncation(getValue(data, "DDE")),
+    firstTruncation: parseTruncation(getValue(data, "DDF")),
+    middleTruncation: parseTruncation(getValue(data, "DDG")),
+  }
+}
+
+const parseComplianceType = (
+  value: string | undefined,
+): DLIDCompliance["complianceType"] => {
+  if (value == "F") {
+    return "compliant"
+  } else if (value == "N") {
+    return "noncompliant"
+  }
+}
+
+/**
+ * Decode the DL or ID subfile of a {@link ParseResult}.
+ *
+ * @returns The decoded data, or undefined if there is no DL or ID subfile
+ */
+export const decodeDLID = (result: ParseResult): DecodedDLID | undefined => {
+  const type = result.subfiles.has("DL") ? "DL" : "ID"
+  const data = result.subfiles.get(type)
+  if (!data) {
+    return undefined
+  }
+
+  const header = result.header
+  const aamvaVersion = header.aamvaVersion
+  const mapping = getElementMapping(aamvaVersion)
+
+  return {
+    aamvaVersion,
+    name: decodeName(data, mapping),
+    dateOfBirth: getDate(header, data, "DBB"),
+    under18Until: getDate(header, data, "DDH"),
+    under19Until: getDate(header, data, "DDI"),
+    under21Until: getDate(header, data, "DDJ"),
+    physical: {
+      sex: parseSex(getValue(data, "DBC")),
+      eyeColor: getValue(data, "DAY"),
+      hairColor: getValue(data, "DAZ"),
+      height: parseHeight(getValue(data, "DAU"), getValue(data, "DAV")),
+      weight: parseWeight(getValue(data, "DAW"), getValue(data, "DAX")),
+    },
+    address: {
+      street1: getValue(data, "DAG"),
+      street2: getValue(data, "DAH"),
+      city: getValue(data, "DAI"),
+      jurisdiction: getValue(data, "DAJ"),
+      postalCode: getValue(data, "DAK"),
+      country: getValue(data, "DCG"),
+    },
+    document: {
+      type,
+      number: getValue(data, "DAQ"),
+      discriminator: getValue(data, "DCF"),
+      inventoryControlNumber: getValue(data, "DCK"),
+      vehicleClass: getValue(data, mapping.vehicleClass),
+      restrictions: getValue(data, mapping.restrictions),
+      endorsements: getValue(data, mapping.endorsements),
+      issueDate: getDate(header, data, "DBD"),
+      expirationDate: getDate(header, data, "DBA"),
+      revisionDate: getDate(header, data, "DDB"),
+    },
+    compliance: {
+      complianceType: parseComplianceType(getValue(data, "DDA")),
+      limitedDuration: getValue(data, "DDD") == "1",
+      organDonor: getValue(data, "DDK") == "1",
+      veteran: getValue(data, "DDL") == "1",
+    },
+  }
+}
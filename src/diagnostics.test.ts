@@ -0,0 +1,48 @@
+import { expect, test } from "vitest"
+import {
+  formatParseError,
+  formatPayloadContext,
+  readControlChars,
+  showControlChars,
+} from "./diagnostics.js"
+import { makeDLIDParser, ParseError } from "./parse.js"
+import { StringIO } from "./stringio.js"
+
+test("shows control characters", () => {
+  expect(showControlChars("@\n\x1e\rANSI \x7f")).toBe("@<LF><RS><CR>ANSI <DEL>")
+})
+
+test("reads control characters", () => {
+  expect(readControlChars("@<LF>\\x1e\\rANSI <DEL>\\\\<XYZ>")).toBe(
+    "@\n\x1e\rANSI \x7f\\<XYZ>",
+  )
+  expect(readControlChars(showControlChars("a\x00\x1fb"))).toBe("a\x00\x1fb")
+})
+
+test("formats payload context", () => {
+  expect(formatPayloadContext("abc\ndefghij", 4, 3)).toBe(
+    "...bc<LF>defg...\n         ^",
+  )
+  expect(formatPayloadContext("ab", 0)).toBe("ab\n^")
+})
+
+test("formats a parse error", () => {
+  const data = "@\n\x1e\rANSI 636000080001DL00310025DLDAQ1\nDC5X\r"
+  let error: unknown
+  try {
+    makeDLIDParser(new StringIO(data)).parse()
+  } catch (e) {
+    error = e
+  }
+
+  expect(error).toBeInstanceOf(ParseError)
+  expect(formatParseError(error as ParseError, data)).toBe(
+    [
+      "Invalid record: 'DC5'",
+      "at offset 38, record DC5 in subfile DL",
+      "expected a record key, found DC5",
+      "...001DL00310025DLDAQ1<LF>DC5X<CR>",
+      "                          ^",
+    ].join("\n"),
+  )
+})
@@ -0,0 +1,156 @@
+/**
+ * Diagnostics for payloads that fail to parse.
+ *
+ * @packageDocumentation
+ */
+
+import type { ParseError, ParsePhase } from "./parse.js"
+
+const CONTROL_NAMES = [
+  "NUL",
+  "SOH",
+  "STX",
+  "ETX",
+  "EOT",
+  "ENQ",
+  "ACK",
+  "BEL",
+  "BS",
+  "HT",
+  "LF",
+  "VT",
+  "FF",
+  "CR",
+  "SO",
+  "SI",
+  "DLE",
+  "DC1",
+  "DC2",
+  "DC3",
+  "DC4",
+  "NAK",
+  "SYN",
+  "ETB",
+  "CAN",
+  "EM",
+  "SUB",
+  "ESC",
+  "FS",
+  "GS",
+  "RS",
+  "US",
+]
+
+const showChar = (c: string): string => {
+  const code = c.charCodeAt(0)
+  const name = code == 0x7f ? "DEL" : CONTROL_NAMES[code]
+  return name != null ? `<${name}>` : c
+}
+
+/**
+ * Replace control characters with their names, e.g. `<LF>`.
+ */
+export const showControlChars = (text: string): string =>
+  Array.from(text, showChar).join("")
+
+const ESCAPE_PATTERN =
+  /<([A-Z]{2,3}[0-9]?)>|\\(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|[nrtfve0\\])/g
+
+const ESCAPES: Readonly<Record<string, string>> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  f: "\f",
+  v: "\v",
+  e: "\x1b",
+  "0": "\0",
+  "\\": "\\",
+}
+
+/**
+ * Replace control character names and backslash escapes with the
+ * characters, the reverse of {@link showControlChars}.
+ *
+ * Handles `<LF>` names, `\n`-style escapes and `\xHH`/`\uHHHH` codes.
+ */
+export const readControlChars = (text: string): string =>
+  text.replace(ESCAPE_PATTERN, (match, name?: string, escape?: string) => {
+    if (name != null) {
+      const code = name == "DEL" ? 0x7f : CONTROL_NAMES.indexOf(name)
+      return code != -1 ? String.fromCharCode(code) : match
+    } else if (escape != null && (escape[0] == "x" || escape[0] == "u")) {
+      return String.fromCharCode(parseInt(escape.substring(1), 16))
+    } else {
+      return ESCAPES[escape ?? ""] ?? match
+    }
+  })
+
+/**
+ * Render the payload around an offset with visible control characters, and
+ * a second line with a caret under the offset.
+ *
+ * @param data - The payload
+ * @param offset - The offset to mark
+ * @param radius - The number of characters to show on each side
+ */
+export const formatPayloadContext = (
+  data: string,
+  offset: number,
+  radius = 20,
+): string => {
+  const start = Math.max(0, offset - radius)
+  const end = Math.min(data.length, offset + radius + 1)
+  const before =
+    (start > 0 ? "..." : "") + showControlChars(data.substring(start, offset))
+  const after =
+    showControlChars(data.substring(offset, end)) +
+    (end < data.length ? "..." : "")
+  return `${before}${after}\n${" ".repeat(before.length)}^`
+}
+
+/**
+ * Describe a {@link ParsePhase}.
+ */
+export const formatParsePhase = (phase: ParsePhase): string => {
+  switch (phase.type) {
+    case "header":
+      return "header"
+    case "designator":
+      return `subfile designator ${phase.index + 1}`
+    case "subfile":
+      return `subfile ${phase.subfileType}`
+    case "record":
+      return `record ${phase.key} in subfile ${phase.subfileType}`
+  }
+}
+
+/**
+ * Describe a {@link ParseError} for a support ticket, with the surrounding
+ * payload if the offset is known.
+ *
+ * @param error - The error
+ * @param data - The payload that failed to parse
+ */
+export const formatParseError = (error: ParseError, data: string): string => {
+  const lines = [error.message]
+
+  const location = [
+    error.offset != null ? `offset ${error.offset}` : undefined,
+    error.phase ? formatParsePhase(error.phase) : undefined,
+  ].filter((v) => v != null)
+  if (location.length > 0) {
+    lines.push(`at ${location.join(", ")}`)
+  }
+
+  if (error.expected != null || error.actual != null) {
+    lines.push(
+      `expected ${showControlChars(error.expected ?? "?")}, found ${showControlChars(error.actual ?? "?")}`,
+    )
+  }
+
+  if (error.offset != null) {
+    lines.push(formatPayloadContext(data, error.offset))
+  }
+
+  return lines.join("\n")
+}
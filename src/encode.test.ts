@@ -0,0 +1,89 @@
+import { describe, expect, test } from "vitest"
+import { EncodeError, encodeDLID } from "./encode.js"
+import { makeDLIDParser, type Header } from "./parse.js"
+import { StringIO } from "./stringio.js"
+
+const header = {
+  dataElementSeparator: "\n",
+  recordSeparator: "\x1e",
+  segmentTerminator: "\r",
+  numEntries: 2,
+  iin: "636000",
+  aamvaVersion: "11",
+  jurisdictionVersion: "00",
+} as const satisfies Header
+
+const subfiles = new Map(
+  Object.entries({
+    DL: new Map(
+      Object.entries({
+        DAQ: "T64235789",
+        DCS: "SAMPLE",
+        DAC: "MICHAEL",
+        DBB: "06062006",
+      }),
+    ),
+    ZV: new Map(Object.entries({ ZVA: "01" })),
+  }),
+)
+
+const expected = [
+  "@\n\x1e\rANSI 636000110002DL00410048ZV00890008",
+  "DL",
+  "DAQT64235789\n",
+  "DCSSAMPLE\n",
+  "DACMICHAEL\n",
+  "DBB06062006\r",
+  "ZV",
+  "ZVA01\r",
+].join("")
+
+describe("encoder", () => {
+  test("encodes data", () => {
+    expect(encodeDLID({ header, subfiles })).toBe(expected)
+  })
+
+  test("round trips through the parser", () => {
+    const encoded = encodeDLID({ header, subfiles })
+    const res = makeDLIDParser(new StringIO(encoded)).parse()
+
+    expect(res.header).toStrictEqual(header)
+    expect(res.subfiles).toStrictEqual(subfiles)
+    expect(encodeDLID(res)).toBe(encoded)
+  })
+
+  test("uses the number of subfiles", () => {
+    const encoded = encodeDLID({
+      header: { ...header, numEntries: 5 },
+      subfiles: new Map([["ID", new Map([["DAQ", "1"]])]]),
+    })
+    expect(encoded).toBe("@\n\x1e\rANSI 636000110001ID00310007IDDAQ1\r")
+  })
+
+  test("rejects separators in values", () => {
+    expect(() =>
+      encodeDLID({
+        header,
+        subfiles: new Map([["DL", new Map([["DAQ", "1\n2"]])]]),
+      }),
+    ).toThrowError(EncodeError)
+  })
+
+  test("rejects invalid header fields", () => {
+    expect(() =>
+      encodeDLID({ header: { ...header, iin: "6360" }, subfiles }),
+    ).toThrowError(EncodeError)
+    expect(() =>
+      encodeDLID({ header: { ...header, segmentTerminator: "" }, subfiles }),
+    ).toThrowError(EncodeError)
+  })
+
+  test("rejects invalid record keys", () => {
+    expect(() =>
+      encodeDLID({
+        header,
+        subfiles: new Map([["DL", new Map([["DA", "1"]])]]),
+      }),
+    ).toThrowError(EncodeError)
+  })
+})
@@ -0,0 +1,132 @@
+/**
+ * Encoding of DL/ID data into an AAMVA barcode payload.
+ *
+ * @packageDocumentation
+ */
+
+import { isLegacyVersion, type Header, type Subfiles } from "./parse.js"
+
+/**
+ * Data to encode.
+ *
+ * The number of entries in the header is taken from the subfiles. The
+ * jurisdiction version is omitted for legacy AAMVA versions.
+ */
+export type EncodeInput = Readonly<{
+  header: Header
+  subfiles: Subfiles
+}>
+
+export class EncodeError extends Error {}
+
+const HEADER_SIZE = 21
+const LEGACY_HEADER_SIZE = 19
+const SUBFILE_DESIGNATOR_SIZE = 10
+
+const subfileTypePattern = /^[A-Z0-9]{2}$/
+const recordKeyPattern = /^[A-Z]{3}$/
+const iinPattern = /^\d{6}$/
+const versionPattern = /^\d{2}$/
+
+const formatNumber = (value: number, width: number, name: string): string => {
+  const str = value.toString().padStart(width, "0")
+  if (str.length > width) {
+    throw new EncodeError(`${name} too large: ${value}`)
+  }
+  return str
+}
+
+const checkSeparator = (sep: string, name: string) => {
+  if (sep.length != 1) {
+    throw new EncodeError(`Invalid ${name}: '${sep}'`)
+  }
+}
+
+const encodeSubfile = (
+  header: Header,
+  type: string,
+  records: ReadonlyMap<string, string>,
+): string => {
+  if (!subfileTypePattern.test(type)) {
+    throw new EncodeError(`Invalid subfile type: '${type}'`)
+  }
+
+  const encodedRecords: string[] = []
+  records.forEach((value, key) => {
+    if (!recordKeyPattern.test(key)) {
+      throw new EncodeError(`Invalid record key: '${key}'`)
+    }
+    if (
+      value.includes(header.dataElementSeparator) ||
+      value.includes(header.segmentTerminator)
+    ) {
+      throw new EncodeError(`Record '${key}' contains a separator`)
+    }
+    encodedRecords.push(key + value)
+  })
+
+  return (
+    type +
+    encodedRecords.join(header.dataElementSeparator) +
+    header.segmentTerminator
+  )
+}
+
+/**
+ * Encode a header and subfiles as an AAMVA barcode payload.
+ *
+ * Subfiles are written in map order, with designator offsets and lengths
+ * computed from the encoded data.
+ */
+export const encodeDLID = (input: EncodeInput): string => {
+  const { header, subfiles } = input
+
+  checkSeparator(header.dataElementSeparator, "data element separator")
+  checkSeparator(header.recordSeparator, "record separator")
+  checkSeparator(header.segmentTerminator, "segment terminator")
+  if (!iinPattern.test(header.iin)) {
+    throw new EncodeError(`Invalid IIN: '${header.iin}'`)
+  }
+  if (!versionPattern.test(header.aamvaVersion)) {
+    throw new EncodeError(`Invalid AAMVA version: '${header.aamvaVersion}'`)
+  }
+  const legacy = isLegacyVersion(header.aamvaVersion)
+  if (!legacy && !versionPattern.test(header.jurisdictionVersion)) {
+    throw new EncodeError(
+      `Invalid jurisdiction version: '${header.jurisdictionVersion}'`,
+    )
+  }
+
+  const encodedSubfiles: string[] = []
+  subfiles.forEach((records, type) => {
+    encodedSubfiles.push(encodeSubfile(header, type, records))
+  })
+
+  let offset =
+    (legacy ? LEGACY_HEADER_SIZE : HEADER_SIZE) +
+    SUBFILE_DESIGNATOR_SIZE * encodedSubfiles.length
+  const designators: string[] = []
+  Array.from(subfiles.keys()).forEach((type, i) => {
+    const length = encodedSubfiles[i]?.length ?? 0
+    designators.push(
+      type +
+        formatNumber(offset, 4, "Subfile offset") +
+        formatNumber(length, 4, "Subfile length"),
+    )
+    offset += length
+  })
+
+  return (
+    "@" +
+    header.dataElementSeparator +
+    header.recordSeparator +
+    header.segmentTerminator +
+    "ANSI " +
+    header.iin +
+    header.aamvaVersion +
+    (legacy ? "" : header.jurisdictionVersion) +
+    formatNumber(encodedSubfiles.length, 2, "Number of entries") +
+    designators.join("") +
+    encodedSubfiles.join("")
+  )
+}
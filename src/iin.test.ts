@@ -0,0 +1,48 @@
+import { describe, expect, test } from "vitest"
+import { checkJurisdiction, getJurisdiction } from "./iin.js"
+import { makeResult } from "./test-helpers.js"
+
+describe("iin", () => {
+  test("includes the Department of State", () => {
+    expect(getJurisdiction("636027")?.name).toBe("U.S. Department of State")
+  })
+
+  test("gets jurisdictions", () => {
+    expect(getJurisdiction("636000")).toStrictEqual({
+      iin: "636000",
+      name: "Virginia",
+      abbreviation: "VA",
+      country: "USA",
+    })
+    expect(getJurisdiction("636012")?.country).toBe("CAN")
+    expect(getJurisdiction("000000")).toBeUndefined()
+  })
+
+  test("accepts matching data", () => {
+    const res = checkJurisdiction(
+      makeResult({ DL: { DAJ: "VA", DCG: "USA" } }, { iin: "636000" }),
+    )
+    expect(res.valid).toBe(true)
+    expect(res.jurisdiction?.abbreviation).toBe("VA")
+    expect(res.issues).toStrictEqual([])
+  })
+
+  test("flags mismatched data", () => {
+    const res = checkJurisdiction(
+      makeResult({ DL: { DAJ: "VA", DCG: "CAN" } }, { iin: "636014" }),
+    )
+    expect(res.valid).toBe(false)
+    expect(res.issues).toStrictEqual([
+      { type: "jurisdiction", expected: "CA", actual: "VA" },
+      { type: "country", expected: "USA", actual: "CAN" },
+    ])
+  })
+
+  test("flags unknown IINs", () => {
+    const res = checkJurisdiction(
+      makeResult({ DL: { DAJ: "VA" } }, { iin: "123456" }),
+    )
+    expect(res.valid).toBe(false)
+    expect(res.issues).toStrictEqual([{ type: "unknownIIN", actual: "123456" }])
+  })
+})
@@ -0,0 +1,181 @@
+/**
+ * AAMVA issuer identification numbers.
+ *
+ * @packageDocumentation
+ */
+
+import type { ParseResult } from "./parse.js"
+
+/**
+ * An issuing jurisdiction.
+ */
+export type Jurisdiction = Readonly<{
+  iin: string
+  name: string
+  abbreviation: string
+  country: "USA" | "CAN" | "MEX"
+}>
+
+/**
+ * A mismatch between the IIN and the subfile data.
+ *
+ * - `unknownIIN` - the IIN is not in the registry
+ * - `jurisdiction` - the DAJ element does not match the IIN
+ * - `country` - the DCG element does not match the IIN
+ */
+export type JurisdictionIssue = Readonly<{
+  type: "unknownIIN" | "jurisdiction" | "country"
+  expected?: string | undefined
+  actual?: string | undefined
+}>
+
+/**
+ * Result of {@link checkJurisdiction}.
+ */
+export type JurisdictionCheck = Readonly<{
+  valid: boolean
+  jurisdiction?: Jurisdiction | undefined
+  issues: readonly JurisdictionIssue[]
+}>
+
+type Entry = readonly [
+  iin: string,
+  name: string,
+  abbreviation: string,
+  country: Jurisdiction["country"],
+]
+
+const entries: readonly Entry[] = [
+  ["604426", "Prince Edward Island", "PE", "CAN"],
+  ["604427", "American Samoa", "AS", "USA"],
+  ["604428", "Quebec", "QC", "CAN"],
+  ["604429", "Yukon", "YT", "CAN"],
+  ["604430", "Northern Mariana Islands", "MP", "USA"],
+  ["604431", "Puerto Rico", "PR", "USA"],
+  ["604432", "Alberta", "AB", "CAN"],
+  ["604433", "Nunavut", "NU", "CAN"],
+  ["604434", "Northwest Territories", "NT", "CAN"],
+  ["636000", "Virginia", "VA", "USA"],
+  ["636001", "New York", "NY", "USA"],
+  ["636002", "Massachusetts", "MA", "USA"],
+  ["636003", "Maryland", "MD", "USA"],
+  ["636004", "North Carolina", "NC", "USA"],
+  ["636005", "South Carolina", "SC", "USA"],
+  ["636006", "Connecticut", "CT", "USA"],
+  ["636007", "Louisiana", "LA", "USA"],
+  ["636008", "Montana", "MT", "USA"],
+  ["636009", "New Mexico", "NM", "USA"],
+  ["636010", "Florida", "FL", "USA"],
+  ["636011", "Delaware", "DE", "USA"],
+  ["636012", "Ontario", "ON", "CAN"],
+  ["636013", "Nova Scotia", "NS", "CAN"],
+  ["636014", "California", "CA", "USA"],
+  ["636015", "Texas", "TX", "USA"],
+  ["636016", "Newfoundland and Labrador", "NL", "CAN"],
+  ["636017", "New Brunswick", "NB", "CAN"],
+  ["636018", "Iowa", "IA", "USA"],
+  ["636019", "Guam", "GU", "USA"],
+  ["636020", "Colorado", "CO", "USA"],
+  ["636021", "Arkansas", "AR", "USA"],
+  ["636022", "Kansas", "KS", "USA"],
+  ["636023", "Ohio", "OH", "USA"],
+  ["636024", "Vermont", "VT", "USA"],
+  ["636025", "Pennsylvania", "PA", "USA"],
+  ["636026", "Arizona", "AZ", "USA"],
+  ["636027", "U.S. Department of State", "DS", "USA"],
+  ["636028", "British Columbia", "BC", "CAN"],
+  ["636029", "Oregon", "OR", "USA"],
+  ["636030", "Missouri", "MO", "USA"],
+  ["636031", "Wisconsin", "WI", "USA"],
+  ["636032", "Michigan", "MI", "USA"],
+  ["636033", "Alabama", "AL", "USA"],
+  ["636034", "North Dakota", "ND", "USA"],
+  ["636035", "Illinois", "IL", "USA"],
+  ["636036", "New Jersey", "NJ", "USA"],
+  ["636037", "Indiana", "IN", "USA"],
+  ["636038", "Minnesota", "MN", "USA"],
+  ["636039", "New Hampshire", "NH", "USA"],
+  ["636040", "Utah", "UT", "USA"],
+  ["636041", "Maine", "ME", "USA"],
+  ["636042", "South Dakota", "SD", "USA"],
+  ["636043", "District of Columbia", "DC", "USA"],
+  ["636044", "Saskatchewan", "SK", "CAN"],
+  ["636045", "Washington", "WA", "USA"],
+  ["636046", "Kentucky", "KY", "USA"],
+  ["636047", "Hawaii", "HI", "USA"],
+  ["636048", "Manitoba", "MB", "CAN"],
+  ["636049", "Nevada", "NV", "USA"],
+  ["636050", "Idaho", "ID", "USA"],
+  ["636051", "Mississippi", "MS", "USA"],
+  ["636052", "Rhode Island", "RI", "USA"],
+  ["636053", "Tennessee", "TN", "USA"],
+  ["636054", "Nebraska", "NE", "USA"],
+  ["636055", "Georgia", "GA", "USA"],
+  ["636056", "Coahuila", "CU", "MEX"],
+  ["636057", "Hidalgo", "HL", "MEX"],
+  ["636058", "Oklahoma", "OK", "USA"],
+  ["636059", "Alaska", "AK", "USA"],
+  ["636060", "Wyoming", "WY", "USA"],
+  ["636061", "West Virginia", "WV", "USA"],
+  ["636062", "U.S. Virgin Islands", "VI", "USA"],
+]
+
+/**
+ * Mapping of IINs to jurisdictions.
+ */
+export const jurisdictions: ReadonlyMap<string, Jurisdiction> = new Map(
+  entries.map(([iin, name, abbreviation, country]) => [
+    iin,
+    { iin, name, abbreviation, country },
+  ]),
+)
+
+/**
+ * Get the {@link Jurisdiction} for an IIN.
+ */
+export const getJurisdiction = (iin: string): Jurisdiction | undefined => {
+  return jurisdictions.get(iin)
+}
+
+/**
+ * Check the IIN of a result against its DAJ and DCG elements.
+ *
+ * DAJ is the cardholder's address jurisdiction, which normally matches the
+ * issuer. A mismatch is a cheap signal of a forged barcode.
+ */
+export const checkJurisdiction = (result: ParseResult): JurisdictionCheck => {
+  const jurisdiction = getJurisdiction(result.header.iin)
+  if (!jurisdiction) {
+    return {
+      valid: false,
+      issues: [{ type: "unknownIIN", actual: result.header.iin }],
+    }
+  }
+
+  const issues: JurisdictionIssue[] = []
+  const data = result.subfiles.get("DL") ?? result.subfiles.get("ID")
+
+  const state = data?.get("DAJ")?.trim()
+  if (state && state != jurisdiction.abbreviation) {
+    issues.push({
+      type: "jurisdiction",
+      expected: jurisdiction.abbreviation,
+      actual: state,
+    })
+  }
+
+  const country = data?.get("DCG")?.trim()
+  if (country && country != jurisdiction.country) {
+    issues.push({
+      type: "country",
+      expected: jurisdiction.country,
+      actual: country,
+    })
+  }
+
+  return {
+    valid: issues.length == 0,
+    jurisdiction,
+    issues,
+  }
+}
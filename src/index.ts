@@ -1,4 +1,22 @@
 export * from "./stringio.js"
+export * from "./layout.js"
+export * from "./alt-code.js"
 export * from "./special-char.js"
 export * from "./parse.js"
+export * from "./profile.js"
+export * from "./controller.js"
 export * from "./input.js"
+export * from "./scan-listener.js"
+export * from "./decode.js"
+export * from "./dates.js"
+export * from "./validate.js"
+export * from "./jurisdiction.js"
+export * from "./encode.js"
+export * from "./json.js"
+export * from "./diagnostics.js"
+export * from "./magstripe.js"
+export * from "./iin.js"
+export * from "./checks.js"
+export * from "./privacy.js"
+export * from "./synthetic.js"
+export * from "./transport.js"
@@ -1,27 +1,24 @@
-import { useEffect, type HTMLAttributes } from "react"
+import { type HTMLAttributes } from "react"
 import type { Meta, StoryObj } from "@storybook/react-vite"
+import { decodeDLID } from "./decode.js"
 import { useDLIDInput } from "./input.js"
+import { parseResultToJSON } from "./json.js"
 import { useSpecialCharInput } from "./special-char.js"
 
 const Component = (props: HTMLAttributes<HTMLInputElement>) => {
   const { ...other } = props
 
-  const { state, setValue, append } = useDLIDInput()
+  const { state, setValue, append } = useDLIDInput(undefined, {
+    onScanComplete(result) {
+      const decoded = decodeDLID(result)
+      if (decoded) {
+        setValue(`${decoded.name.first} ${decoded.name.family}`)
+      }
+    },
+  })
 
   const inputProps = useSpecialCharInput(append)
 
-  useEffect(() => {
-    if (state.result) {
-      const dlidSf =
-        state.result.subfiles.get("DL") ?? state.result.subfiles.get("ID")
-      if (dlidSf) {
-        const firstName = dlidSf.get("DAC")
-        const lastName = dlidSf.get("DCS")
-        setValue(`${firstName} ${lastName}`)
-      }
-    }
-  }, [state.result, setValue])
-
   return (
     <>
       <div>
@@ -34,10 +31,17 @@ const Component = (props: HTMLAttributes<HTMLInputElement>) => {
           onChange={(e) => setValue(e.target.value)}
         />
         {state.isCapturing ? (state.isParsingDLID ? "!!!" : "...") : undefined}
+        {state.status == "error"
+          ? `Damaged barcode, rescan (${state.error?.message})`
+          : undefined}
       </div>
       <textarea
         disabled
-        value={state.result ? JSON.stringify(state.result) : ""}
+        value={
+          state.result
+            ? JSON.stringify(parseResultToJSON(state.result), null, 2)
+            : ""
+        }
       />
     </>
   )
@@ -0,0 +1,97 @@
+import { describe, expect, test } from "vitest"
+import {
+  decodedSubfilesFromJSON,
+  decodedSubfilesToJSON,
+  JSONFormatError,
+  parseResultFromJSON,
+  parseResultToJSON,
+} from "./json.js"
+import { makeDLIDParser } from "./parse.js"
+import { StringIO } from "./stringio.js"
+
+const exampleData =
+  "@\n\x1e\rANSI 636000110002DL00410033ZV00740013" +
+  "DLDCSSAMPLE\nDAQT64235789\nDACJANE\r" +
+  "ZVZVA01\nZVB2\r"
+
+const roundTrip = (value: unknown): unknown => JSON.parse(JSON.stringify(value))
+
+describe("parse result JSON", () => {
+  test("keeps subfile and record order", () => {
+    const result = makeDLIDParser(new StringIO(exampleData)).parse()
+    const json = parseResultToJSON(result)
+
+    expect(json.subfiles).toStrictEqual([
+      {
+        type: "DL",
+        records: [
+          ["DCS", "SAMPLE"],
+          ["DAQ", "T64235789"],
+          ["DAC", "JANE"],
+        ],
+        raw: "DLDCSSAMPLE\nDAQT64235789\nDACJANE\r",
+      },
+      {
+        type: "ZV",
+        records: [
+          ["ZVA", "01"],
+          ["ZVB", "2"],
+        ],
+        raw: "ZVZVA01\nZVB2\r",
+      },
+    ])
+  })
+
+  test("reads back a result", () => {
+    const result = makeDLIDParser(new StringIO(exampleData)).parse()
+    const restored = parseResultFromJSON(roundTrip(parseResultToJSON(result)))
+
+    expect(restored).toStrictEqual(result)
+    expect(Array.from(restored.subfiles.get("DL")?.keys() ?? [])).toStrictEqual(
+      ["DCS", "DAQ", "DAC"],
+    )
+  })
+
+  test("reads back warnings", () => {
+    const data = exampleData.replace("DL00410033", "DL00400033")
+    const result = makeDLIDParser(new StringIO(data), { lenient: true }).parse()
+    expect(result.warnings).not.toHaveLength(0)
+
+    const restored = parseResultFromJSON(roundTrip(parseResultToJSON(result)))
+    expect(restored).toStrictEqual(result)
+  })
+
+  test("rejects invalid JSON", () => {
+    const json = parseResultToJSON(
+      makeDLIDParser(new StringIO(exampleData)).parse(),
+    )
+    const [subfile] = json.subfiles
+    const invalid = {
+      ...json,
+      subfiles: [{ ...subfile, records: [["DCS"]] }],
+    }
+
+    expect(() => parseResultFromJSON(invalid)).toThrowError(
+      new JSONFormatError(
+        "Expected an [id, value] pair at subfiles[0].records[0]",
+      ),
+    )
+    expect(() => parseResultFromJSON({})).toThrowError(JSONFormatError)
+    expect(() => parseResultFromJSON(null)).toThrowError(JSONFormatError)
+  })
+})
+
+test("converts decoded subfiles", () => {
+  const decoded = new Map<string, unknown>([
+    ["ZV", { a: "01" }],
+    ["ZA", "b"],
+  ])
+
+  const json = decodedSubfilesToJSON(decoded)
+  expect(json).toStrictEqual([
+    ["ZV", { a: "01" }],
+    ["ZA", "b"],
+  ])
+  expect(decodedSubfilesFromJSON(roundTrip(json))).toStrictEqual(decoded)
+  expect(() => decodedSubfilesFromJSON([[1, 2]])).toThrowError(JSONFormatError)
+})
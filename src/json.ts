@@ -0,0 +1,312 @@
+/**
+ * JSON serialization of parse results.
+ *
+ * Maps are written as arrays of entries, so subfile and record order is
+ * kept. Decoded DL/ID data is plain data and can be serialized as is.
+ *
+ * @packageDocumentation
+ */
+
+import type {
+  Header,
+  ParseResult,
+  ParseWarning,
+  SubfileData,
+  SubfileDesignator,
+} from "./parse.js"
+
+/**
+ * A subfile in JSON form.
+ */
+export type SubfileJSON = Readonly<{
+  type: string
+  records: readonly (readonly [string, string])[]
+  raw?: string | undefined
+}>
+
+/**
+ * A {@link ParseResult} in JSON form.
+ */
+export type ParseResultJSON = Readonly<{
+  header: Header
+  subfileDesignators: readonly SubfileDesignator[]
+  subfiles: readonly SubfileJSON[]
+  warnings: readonly ParseWarning[]
+}>
+
+export class JSONFormatError extends Error {}
+
+/**
+ * JSON Schema for {@link ParseResultJSON}.
+ */
+export const parseResultJSONSchema = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  title: "DL/ID parse result",
+  type: "object",
+  required: ["header", "subfileDesignators", "subfiles", "warnings"],
+  additionalProperties: false,
+  properties: {
+    header: {
+      type: "object",
+      required: [
+        "dataElementSeparator",
+        "recordSeparator",
+        "segmentTerminator",
+        "iin",
+        "aamvaVersion",
+        "jurisdictionVersion",
+        "numEntries",
+      ],
+      additionalProperties: false,
+      properties: {
+        dataElementSeparator: { type: "string" },
+        recordSeparator: { type: "string" },
+        segmentTerminator: { type: "string" },
+        iin: { type: "string" },
+        aamvaVersion: { type: "string" },
+        jurisdictionVersion: { type: "string" },
+        numEntries: { type: "integer", minimum: 0 },
+      },
+    },
+    subfileDesignators: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["type", "offset", "length"],
+        additionalProperties: false,
+        properties: {
+          type: { type: "string" },
+          offset: { type: "integer", minimum: 0 },
+          length: { type: "integer", minimum: 0 },
+        },
+      },
+    },
+    subfiles: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["type", "records"],
+        additionalProperties: false,
+        properties: {
+          type: { type: "string" },
+          records: {
+            type: "array",
+            items: {
+              type: "array",
+              prefixItems: [{ type: "string" }, { type: "string" }],
+              minItems: 2,
+              maxItems: 2,
+            },
+          },
+          raw: { type: "string" },
+        },
+      },
+    },
+    warnings: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["type", "subfileType", "message"],
+        additionalProperties: false,
+        properties: {
+          type: {
+            enum: [
+              "subfileOffset",
+              "subfileLength",
+              "subfileMissing",
+              "separator",
+            ],
+          },
+          subfileType: { type: "string" },
+          message: { type: "string" },
+          declared: { type: "integer" },
+          actual: { type: "integer" },
+        },
+      },
+    },
+  },
+} as const
+
+/**
+ * Convert a {@link ParseResult} to its JSON form.
+ */
+export const parseResultToJSON = (result: ParseResult): ParseResultJSON => {
+  const subfiles: SubfileJSON[] = []
+  result.subfiles.forEach((data, type) => {
+    const raw = result.rawSubfiles.get(type)
+    subfiles.push({
+      type,
+      records: Array.from(data),
+      ...(raw != null ? { raw } : {}),
+    })
+  })
+
+  return {
+    header: result.header,
+    subfileDesignators: result.subfileDesignators,
+    subfiles,
+    warnings: result.warnings,
+  }
+}
+
+type JSONObject = { readonly [key: string]: unknown }
+
+const isObject = (value: unknown): value is JSONObject =>
+  typeof value == "object" && value != null && !Array.isArray(value)
+
+const getObject = (value: unknown, path: string): JSONObject => {
+  if (!isObject(value)) {
+    throw new JSONFormatError(`Expected an object at ${path}`)
+  }
+  return value
+}
+
+const getArray = (value: unknown, path: string): readonly unknown[] => {
+  if (!Array.isArray(value)) {
+    throw new JSONFormatError(`Expected an array at ${path}`)
+  }
+  return value
+}
+
+const getString = (obj: JSONObject, key: string, path: string): string => {
+  const value = obj[key]
+  if (typeof value != "string") {
+    throw new JSONFormatError(`Expected a string at ${path}.${key}`)
+  }
+  return value
+}
+
+const getInteger = (obj: JSONObject, key: string, path: string): number => {
+  const value = obj[key]
+  if (typeof value != "number" || !Number.isInteger(value)) {
+    throw new JSONFormatError(`Expected an integer at ${path}.${key}`)
+  }
+  return value
+}
+
+const readHeader = (value: unknown): Header => {
+  const obj = getObject(value, "header")
+  return {
+    dataElementSeparator: getString(obj, "dataElementSeparator", "header"),
+    recordSeparator: getString(obj, "recordSeparator", "header"),
+    segmentTerminator: getString(obj, "segmentTerminator", "header"),
+    iin: getString(obj, "iin", "header"),
+    aamvaVersion: getString(obj, "aamvaVersion", "header"),
+    jurisdictionVersion: getString(obj, "jurisdictionVersion", "header"),
+    numEntries: getInteger(obj, "numEntries", "header"),
+  }
+}
+
+const readDesignator = (value: unknown, path: string): SubfileDesignator => {
+  const obj = getObject(value, path)
+  return {
+    type: getString(obj, "type", path),
+    offset: getInteger(obj, "offset", path),
+    length: getInteger(obj, "length", path),
+  }
+}
+
+const readRecords = (value: unknown, path: string): SubfileData => {
+  const records = new Map<string, string>()
+  getArray(value, path).forEach((entry, i) => {
+    const pair = getArray(entry, `${path}[${i}]`)
+    const [id, v] = pair
+    if (pair.length != 2 || typeof id != "string" || typeof v != "string") {
+      throw new JSONFormatError(`Expected an [id, value] pair at ${path}[${i}]`)
+    }
+    records.set(id, v)
+  })
+  return records
+}
+
+const warningTypes: readonly ParseWarning["type"][] = [
+  "subfileOffset",
+  "subfileLength",
+  "subfileMissing",
+  "separator",
+]
+
+const isWarningType = (value: string): value is ParseWarning["type"] =>
+  warningTypes.some((t) => t == value)
+
+const readWarning = (value: unknown, path: string): ParseWarning => {
+  const obj = getObject(value, path)
+  const type = getString(obj, "type", path)
+  if (!isWarningType(type)) {
+    throw new JSONFormatError(`Invalid warning type at ${path}: '${type}'`)
+  }
+  return {
+    type,
+    subfileType: getString(obj, "subfileType", path),
+    message: getString(obj, "message", path),
+    ...(obj["declared"] != null
+      ? { declared: getInteger(obj, "declared", path) }
+      : {}),
+    ...(obj["actual"] != null
+      ? { actual: getInteger(obj, "actual", path) }
+      : {}),
+  }
+}
+
+/**
+ * Read a {@link ParseResult} from its JSON form.
+ *
+ * @param value - The parsed JSON value
+ * @throws JSONFormatError if the value does not match
+ *   {@link parseResultJSONSchema}
+ */
+export const parseResultFromJSON = (value: unknown): ParseResult => {
+  const obj = getObject(value, "result")
+
+  const subfiles = new Map<string, SubfileData>()
+  const rawSubfiles = new Map<string, string>()
+  getArray(obj["subfiles"], "subfiles").forEach((entry, i) => {
+    const path = `subfiles[${i}]`
+    const subfile = getObject(entry, path)
+    const type = getString(subfile, "type", path)
+    subfiles.set(type, readRecords(subfile["records"], `${path}.records`))
+    if (subfile["raw"] != null) {
+      rawSubfiles.set(type, getString(subfile, "raw", path))
+    }
+  })
+
+  return {
+    header: readHeader(obj["header"]),
+    subfileDesignators: getArray(
+      obj["subfileDesignators"],
+      "subfileDesignators",
+    ).map((d, i) => readDesignator(d, `subfileDesignators[${i}]`)),
+    subfiles,
+    rawSubfiles,
+    warnings: getArray(obj["warnings"], "warnings").map((w, i) =>
+      readWarning(w, `warnings[${i}]`),
+    ),
+  }
+}
+
+/**
+ * Convert decoded jurisdiction subfiles to a JSON-compatible entry list.
+ *
+ * @param decoded - The result of `SubfileDecoderRegistry.decode`
+ */
+export const decodedSubfilesToJSON = <T>(
+  decoded: ReadonlyMap<string, T>,
+): readonly (readonly [string, T])[] => Array.from(decoded)
+
+/**
+ * Read decoded jurisdiction subfiles from their entry list.
+ */
+export const decodedSubfilesFromJSON = (
+  value: unknown,
+): ReadonlyMap<string, unknown> => {
+  const decoded = new Map<string, unknown>()
+  getArray(value, "decoded").forEach((entry, i) => {
+    const pair = getArray(entry, `decoded[${i}]`)
+    const [type, data] = pair
+    if (pair.length != 2 || typeof type != "string") {
+      throw new JSONFormatError(`Expected a [type, data] pair at decoded[${i}]`)
+    }
+    decoded.set(type, data)
+  })
+  return decoded
+}
@@ -0,0 +1,40 @@
+import { describe, expect, test } from "vitest"
+import { makeSubfileDecoderRegistry } from "./jurisdiction.js"
+import type { ParseResult } from "./parse.js"
+import { makeResult } from "./test-helpers.js"
+
+const makeRawResult = (iin: string): ParseResult => ({
+  ...makeResult({ DL: { DAQ: "T64235789" }, ZV: { ZVA: "01" } }, { iin }),
+  rawSubfiles: new Map([
+    ["DL", "DLDAQT64235789\r"],
+    ["ZV", "ZVZVA01\r"],
+  ]),
+})
+
+describe("subfile decoder registry", () => {
+  test("decodes registered subfiles", () => {
+    const registry = makeSubfileDecoderRegistry()
+    registry.register("ZV", (data, raw) => ({ a: data.get("ZVA"), raw }))
+
+    expect(registry.decode(makeRawResult("636000"))).toStrictEqual(
+      new Map([["ZV", { a: "01", raw: "ZVZVA01\r" }]]),
+    )
+  })
+
+  test("prefers issuer-specific decoders", () => {
+    const registry = makeSubfileDecoderRegistry()
+    registry.register("ZV", () => "any")
+    registry.register("ZV", () => "virginia", "636000")
+
+    expect(registry.decode(makeRawResult("636000")).get("ZV")).toBe("virginia")
+    expect(registry.decode(makeRawResult("636014")).get("ZV")).toBe("any")
+  })
+
+  test("skips unregistered subfiles", () => {
+    const registry = makeSubfileDecoderRegistry()
+    registry.register("ZC", () => "california", "636014")
+
+    expect(registry.get("ZC", "636000")).toBeUndefined()
+    expect(registry.decode(makeRawResult("636014")).size).toBe(0)
+  })
+})
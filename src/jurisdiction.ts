@@ -0,0 +1,86 @@
+/**
+ * Decoding of jurisdiction-specific subfiles.
+ *
+ * @packageDocumentation
+ */
+
+import type { ParseResult, SubfileData } from "./parse.js"
+
+/**
+ * Decode a jurisdiction-specific subfile.
+ *
+ * @param data - The parsed subfile records
+ * @param raw - The raw subfile text
+ * @param result - The whole parse result
+ */
+export type SubfileDecoder<T = unknown> = (
+  data: SubfileData,
+  raw: string,
+  result: ParseResult,
+) => T
+
+/**
+ * Registry of {@link SubfileDecoder} functions.
+ */
+export type SubfileDecoderRegistry = Readonly<{
+  /**
+   * Register a decoder.
+   *
+   * @param subfileType - The subfile type, e.g. "ZV"
+   * @param decoder - The decoder
+   * @param iin - Only use the decoder for this issuer, or for any issuer if
+   *   omitted
+   */
+  register(subfileType: string, decoder: SubfileDecoder, iin?: string): void
+
+  /**
+   * Get the decoder for a subfile type and issuer.
+   *
+   * Decoders registered for the issuer take precedence.
+   */
+  get(subfileType: string, iin: string): SubfileDecoder | undefined
+
+  /**
+   * Decode all subfiles of a result that have a registered decoder.
+   *
+   * @returns A mapping of subfile types to decoded data
+   */
+  decode(result: ParseResult): ReadonlyMap<string, unknown>
+}>
+
+const makeKey = (subfileType: string, iin: string | undefined): string =>
+  iin != null ? `${iin}:${subfileType}` : subfileType
+
+class _SubfileDecoderRegistry {
+  private decoders = new Map<string, SubfileDecoder>()
+
+  register(subfileType: string, decoder: SubfileDecoder, iin?: string) {
+    this.decoders.set(makeKey(subfileType, iin), decoder)
+  }
+
+  get(subfileType: string, iin: string): SubfileDecoder | undefined {
+    return (
+      this.decoders.get(makeKey(subfileType, iin)) ??
+      this.decoders.get(makeKey(subfileType, undefined))
+    )
+  }
+
+  decode(result: ParseResult): ReadonlyMap<string, unknown> {
+    const decoded = new Map<string, unknown>()
+    result.subfiles.forEach((data, subfileType) => {
+      const decoder = this.get(subfileType, result.header.iin)
+      if (decoder) {
+        const raw = result.rawSubfiles.get(subfileType) ?? ""
+        decoded.set(subfileType, decoder(data, raw, result))
+      }
+    })
+    return decoded
+  }
+}
+
+/**
+ * Make a {@link SubfileDecoderRegistry}.
+ */
+export const makeSubfileDecoderRegistry = (): SubfileDecoderRegistry => {
+  return new _SubfileDecoderRegistry()
+}
@@ -0,0 +1,113 @@
+import { expect, test } from "vitest"
+import { keyboardLayouts, translateKey } from "./layout.js"
+import { SpecialCharInput } from "./special-char.js"
+import { makeKeyEvent } from "./test-helpers.js"
+
+test.each([
+  ["us", "Digit2", true, false, "@"],
+  ["us", "KeyQ", false, false, "q"],
+  ["french", "KeyQ", false, false, "a"],
+  ["french", "Digit2", false, false, "é"],
+  ["french", "Digit0", false, true, "@"],
+  ["german", "KeyY", true, false, "Z"],
+  ["german", "KeyQ", false, true, "@"],
+  ["dvorak", "KeyJ", false, false, "h"],
+  ["uk", "Quote", true, false, "@"],
+  ["us", "Digit2", false, true, undefined],
+  ["us", "F1", false, false, undefined],
+] as const)("translates %s %s", (layout, code, shift, altGraph, expected) => {
+  expect(translateKey(keyboardLayouts[layout], code, shift, altGraph)).toBe(
+    expected,
+  )
+})
+
+test("special char input translates keys", () => {
+  const input = new SpecialCharInput({
+    layout: keyboardLayouts.us,
+    isCapturing: () => true,
+  })
+
+  // US scanner on an AZERTY keyboard
+  const at = makeKeyEvent("Digit2", "2", ["Shift"])
+  expect(input.onKeyDown(at.event)).toBe("@")
+  expect(at.isPrevented()).toBe(true)
+
+  expect(input.onKeyDown(makeKeyEvent("KeyA", "q").event)).toBe("a")
+  expect(input.onKeyDown(makeKeyEvent("Digit1", "&").event)).toBe("1")
+  expect(
+    input.onKeyDown(makeKeyEvent("Semicolon", "m", ["Control"]).event),
+  ).toBeUndefined()
+})
+
+test("special char input translates control keys", () => {
+  const input = new SpecialCharInput({
+    layout: keyboardLayouts.dvorak,
+    isCapturing: () => true,
+  })
+
+  expect(input.onKeyDown(makeKeyEvent("KeyC", "c", ["Control"]).event)).toBe(
+    "\n",
+  )
+  expect(
+    input.onKeyDown(makeKeyEvent("KeyJ", "j", ["Control"]).event),
+  ).toBeUndefined()
+})
+
+test("special char input without a layout", () => {
+  const input = new SpecialCharInput()
+
+  const key = makeKeyEvent("KeyA", "q")
+  expect(input.onKeyDown(key.event)).toBeUndefined()
+  expect(key.isPrevented()).toBe(false)
+})
+
+test("special char input leaves typing alone", () => {
+  let capturing = false
+  const input = new SpecialCharInput({
+    layout: keyboardLayouts.us,
+    isCapturing: () => capturing,
+  })
+
+  const key = makeKeyEvent("KeyA", "q")
+  expect(input.onKeyDown(key.event)).toBeUndefined()
+  expect(key.isPrevented()).toBe(false)
+  expect(
+    input.onKeyDown(makeKeyEvent("KeyC", "c", ["Control"]).event),
+  ).toBeUndefined()
+
+  capturing = true
+  expect(input.onKeyDown(makeKeyEvent("KeyA", "q").event)).toBe("a")
+})
+
+test("special char input translates the trigger before capturing", () => {
+  let capturing = false
+  const input = new SpecialCharInput({
+    layout: keyboardLayouts.us,
+    isCapturing: () => capturing,
+  })
+
+  // US scanner on an AZERTY keyboard
+  expect(input.getTrigger(makeKeyEvent("Digit2", "2", ["Shift"]).event)).toBe(
+    "@",
+  )
+  expect(input.getTrigger(makeKeyEvent("Digit2", "é").event)).toBeUndefined()
+  expect(
+    input.getTrigger(makeKeyEvent("Digit2", "2", ["Shift", "Control"]).event),
+  ).toBeUndefined()
+
+  capturing = true
+  expect(
+    input.getTrigger(makeKeyEvent("Digit2", "2", ["Shift"]).event),
+  ).toBeUndefined()
+})
+
+test("special char input has no trigger on the same layout", () => {
+  const input = new SpecialCharInput({
+    layout: keyboardLayouts.us,
+    isCapturing: () => false,
+  })
+
+  expect(
+    input.getTrigger(makeKeyEvent("Digit2", "@", ["Shift"]).event),
+  ).toBeUndefined()
+})
@@ -0,0 +1,226 @@
+/**
+ * Keyboard layout tables for translating physical key codes to characters.
+ *
+ * Keyboard wedge scanners send key codes for the layout they emulate. When
+ * the operating system uses a different layout, the characters it produces
+ * do not match the scanned data, but `KeyboardEvent.code` still identifies
+ * the physical key the scanner meant.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Characters produced by a key: unshifted, shifted, and with AltGr.
+ */
+export type KeyChars = readonly [
+  normal: string,
+  shift: string,
+  altGraph?: string,
+]
+
+/**
+ * Mapping of `KeyboardEvent.code` values to characters.
+ */
+export type KeyboardLayout = ReadonlyMap<string, KeyChars>
+
+const LETTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ"
+
+const makeLayout = (
+  keys: Readonly<Record<string, KeyChars>>,
+): KeyboardLayout => {
+  const layout = new Map<string, KeyChars>()
+  for (const letter of LETTERS) {
+    layout.set(`Key${letter}`, [letter.toLowerCase(), letter])
+  }
+  layout.set("Space", [" ", " "])
+  Object.entries(keys).forEach(([code, chars]) => layout.set(code, chars))
+  return layout
+}
+
+const usKeys: Readonly<Record<string, KeyChars>> = {
+  Backquote: ["`", "~"],
+  Digit1: ["1", "!"],
+  Digit2: ["2", "@"],
+  Digit3: ["3", "#"],
+  Digit4: ["4", "$"],
+  Digit5: ["5", "%"],
+  Digit6: ["6", "^"],
+  Digit7: ["7", "&"],
+  Digit8: ["8", "*"],
+  Digit9: ["9", "("],
+  Digit0: ["0", ")"],
+  Minus: ["-", "_"],
+  Equal: ["=", "+"],
+  BracketLeft: ["[", "{"],
+  BracketRight: ["]", "}"],
+  Backslash: ["\\", "|"],
+  Semicolon: [";", ":"],
+  Quote: ["'", '"'],
+  Comma: [",", "<"],
+  Period: [".", ">"],
+  Slash: ["/", "?"],
+}
+
+/**
+ * US QWERTY.
+ */
+export const usLayout: KeyboardLayout = makeLayout(usKeys)
+
+/**
+ * UK QWERTY.
+ */
+export const ukLayout: KeyboardLayout = makeLayout({
+  ...usKeys,
+  Backquote: ["`", "¬"],
+  Digit2: ["2", '"'],
+  Digit3: ["3", "£"],
+  Quote: ["'", "@"],
+  Backslash: ["#", "~"],
+  IntlBackslash: ["\\", "|"],
+})
+
+/**
+ * French AZERTY.
+ */
+export const frenchLayout: KeyboardLayout = makeLayout({
+  Backquote: ["²", "²"],
+  Digit1: ["&", "1"],
+  Digit2: ["é", "2", "~"],
+  Digit3: ['"', "3", "#"],
+  Digit4: ["'", "4", "{"],
+  Digit5: ["(", "5", "["],
+  Digit6: ["-", "6", "|"],
+  Digit7: ["è", "7", "`"],
+  Digit8: ["_", "8", "\\"],
+  Digit9: ["ç", "9", "^"],
+  Digit0: ["à", "0", "@"],
+  Minus: [")", "°", "]"],
+  Equal: ["=", "+", "}"],
+  KeyQ: ["a", "A"],
+  KeyW: ["z", "Z"],
+  KeyE: ["e", "E", "€"],
+  BracketLeft: ["^", "¨"],
+  BracketRight: ["$", "£", "¤"],
+  KeyA: ["q", "Q"],
+  Semicolon: ["m", "M"],
+  Quote: ["ù", "%"],
+  Backslash: ["*", "µ"],
+  IntlBackslash: ["<", ">"],
+  KeyZ: ["w", "W"],
+  KeyM: [",", "?"],
+  Comma: [";", "."],
+  Period: [":", "/"],
+  Slash: ["!", "§"],
+})
+
+/**
+ * German QWERTZ.
+ */
+export const germanLayout: KeyboardLayout = makeLayout({
+  Backquote: ["^", "°"],
+  Digit1: ["1", "!"],
+  Digit2: ["2", '"', "²"],
+  Digit3: ["3", "§", "³"],
+  Digit4: ["4", "$"],
+  Digit5: ["5", "%"],
+  Digit6: ["6", "&"],
+  Digit7: ["7", "/", "{"],
+  Digit8: ["8", "(", "["],
+  Digit9: ["9", ")", "]"],
+  Digit0: ["0", "=", "}"],
+  Minus: ["ß", "?", "\\"],
+  Equal: ["´", "`"],
+  KeyQ: ["q", "Q", "@"],
+  KeyE: ["e", "E", "€"],
+  KeyY: ["z", "Z"],
+  BracketLeft: ["ü", "Ü"],
+  BracketRight: ["+", "*", "~"],
+  Semicolon: ["ö", "Ö"],
+  Quote: ["ä", "Ä"],
+  Backslash: ["#", "'"],
+  IntlBackslash: ["<", ">", "|"],
+  KeyZ: ["y", "Y"],
+  KeyM: ["m", "M", "µ"],
+  Comma: [",", ";"],
+  Period: [".", ":"],
+  Slash: ["-", "_"],
+})
+
+/**
+ * US Dvorak.
+ */
+export const dvorakLayout: KeyboardLayout = makeLayout({
+  ...usKeys,
+  Minus: ["[", "{"],
+  Equal: ["]", "}"],
+  KeyQ: ["'", '"'],
+  KeyW: [",", "<"],
+  KeyE: [".", ">"],
+  KeyR: ["p", "P"],
+  KeyT: ["y", "Y"],
+  KeyY: ["f", "F"],
+  KeyU: ["g", "G"],
+  KeyI: ["c", "C"],
+  KeyO: ["r", "R"],
+  KeyP: ["l", "L"],
+  BracketLeft: ["/", "?"],
+  BracketRight: ["=", "+"],
+  KeyA: ["a", "A"],
+  KeyS: ["o", "O"],
+  KeyD: ["e", "E"],
+  KeyF: ["u", "U"],
+  KeyG: ["i", "I"],
+  KeyH: ["d", "D"],
+  KeyJ: ["h", "H"],
+  KeyK: ["t", "T"],
+  KeyL: ["n", "N"],
+  Semicolon: ["s", "S"],
+  Quote: ["-", "_"],
+  KeyZ: [";", ":"],
+  KeyX: ["q", "Q"],
+  KeyC: ["j", "J"],
+  KeyV: ["k", "K"],
+  KeyB: ["x", "X"],
+  KeyN: ["b", "B"],
+  KeyM: ["m", "M"],
+  Comma: ["w", "W"],
+  Period: ["v", "V"],
+  Slash: ["z", "Z"],
+})
+
+/**
+ * Built-in {@link KeyboardLayout} tables.
+ */
+export const keyboardLayouts = {
+  us: usLayout,
+  uk: ukLayout,
+  french: frenchLayout,
+  german: germanLayout,
+  dvorak: dvorakLayout,
+} as const satisfies Readonly<Record<string, KeyboardLayout>>
+
+/**
+ * Translate a physical key to the character it produces in a layout.
+ *
+ * @param layout - The layout the scanner emulates
+ * @param code - The `KeyboardEvent.code` value
+ * @param shift - Whether Shift is held
+ * @param altGraph - Whether AltGr is held
+ * @returns The character, or undefined if the key produces none
+ */
+export const translateKey = (
+  layout: KeyboardLayout,
+  code: string,
+  shift: boolean,
+  altGraph = false,
+): string | undefined => {
+  const chars = layout.get(code)
+  if (!chars) {
+    return undefined
+  }
+  const [normal, shifted, alt] = chars
+  if (altGraph) {
+    return alt
+  }
+  return shift ? shifted : normal
+}
@@ -0,0 +1,156 @@
+import { describe, expect, test } from "vitest"
+import { isExpired } from "./checks.js"
+import { decodeDLID } from "./decode.js"
+import { makeMagStripeParser } from "./magstripe.js"
+import { HeaderParseError, ParseError } from "./parse.js"
+import { EOF, StringIO } from "./stringio.js"
+
+const track1 = "%VARICHMOND^SAMPLE$MICHAEL$JOHN^2300 WEST BROAD STREET^?"
+const track2 = ";636000123456789=270619900606?"
+const track3 = [
+  "%",
+  "1",
+  "0",
+  "23269      ",
+  "D ",
+  "B         ",
+  "    ",
+  "1",
+  "509",
+  "165",
+  "BRO",
+  "BLU",
+  "?",
+].join("")
+
+const exampleData = track1 + track2 + track3
+
+describe("magnetic stripe parser", () => {
+  test("parses test data", () => {
+    const parser = makeMagStripeParser(new StringIO(exampleData))
+    const res = parser.parse()
+
+    expect(res.header).toStrictEqual({
+      dataElementSeparator: "^",
+      recordSeparator: "",
+      segmentTerminator: "?",
+      iin: "636000",
+      aamvaVersion: "01",
+      jurisdictionVersion: "00",
+      numEntries: 1,
+    })
+    expect(res.subfiles).toStrictEqual(
+      new Map([
+        [
+          "DL",
+          new Map(
+            Object.entries({
+              DAJ: "VA",
+              DAI: "RICHMOND",
+              DAA: "SAMPLE$MICHAEL$JOHN",
+              DAG: "2300 WEST BROAD STREET",
+              DAQ: "123456789",
+              DBA: "20270630",
+              DBB: "19900606",
+              DAK: "23269",
+              DAR: "D",
+              DAS: "B",
+              DBC: "1",
+              DAU: "069 in",
+              DAW: "165",
+              DAZ: "BRO",
+              DAY: "BLU",
+            }),
+          ),
+        ],
+      ]),
+    )
+    expect(res.rawSubfiles.get("DL")).toBe(exampleData)
+  })
+
+  test("decodes parsed data", () => {
+    const parser = makeMagStripeParser(new StringIO(exampleData))
+    const decoded = decodeDLID(parser.parse())
+
+    expect(decoded?.name.family).toBe("SAMPLE")
+    expect(decoded?.name.first).toBe("MICHAEL")
+    expect(decoded?.dateOfBirth).toStrictEqual({ year: 1990, month: 6, day: 6 })
+    expect(decoded?.document.vehicleClass).toBe("D")
+  })
+
+  test("uses version 01 element IDs for any CDS version", () => {
+    const data = track1 + track2 + track3.replace(/^%1/, "%2")
+    const res = makeMagStripeParser(new StringIO(data)).parse()
+
+    expect(res.header.aamvaVersion).toBe("01")
+    expect(decodeDLID(res)?.document.vehicleClass).toBe("D")
+  })
+
+  test("parses with multiple appends", () => {
+    const reader = new StringIO("")
+    const parser = makeMagStripeParser(reader)
+
+    reader.append(exampleData.substring(0, 1))
+    expect(() => parser.parse()).toThrowError(EOF)
+
+    reader.append(exampleData.substring(1, 70))
+    expect(() => parser.parse()).toThrowError(EOF)
+
+    reader.append(exampleData.substring(70))
+    expect(parser.parse().subfiles.get("DL")?.get("DAY")).toBe("BLU")
+  })
+
+  test("completes on line break", () => {
+    const reader = new StringIO(track1 + track2)
+    const parser = makeMagStripeParser(reader)
+    expect(() => parser.parse()).toThrowError(EOF)
+
+    reader.append("\r")
+    const res = parser.parse()
+    expect(res.subfiles.get("DL")?.get("DAQ")).toBe("123456789")
+    expect(res.subfiles.get("DL")?.has("DAK")).toBe(false)
+  })
+
+  test("parses expiration codes", () => {
+    const parse = (track: string) =>
+      makeMagStripeParser(new StringIO(track + "\r"))
+        .parse()
+        .subfiles.get("DL")
+        ?.get("DBA")
+
+    expect(parse(";636000123=278819900215?")).toBe("20270228")
+    expect(parse(";636000123=279919900215?")).toBe("20270215")
+    expect(parse(";636000123=277719900215?")).toBe("99991231")
+    expect(parse(";636000123=271319900215?")).toBeUndefined()
+  })
+
+  test("does not expire non-expiring cards", () => {
+    const res = makeMagStripeParser(
+      new StringIO(";636000123=277719900215?\r"),
+    ).parse()
+    expect(isExpired(res, { now: new Date("2100-01-01T00:00:00Z") })).toBe(
+      false,
+    )
+  })
+
+  test("throws header parse error", () => {
+    expect(() => makeMagStripeParser(new StringIO("@\n")).parse()).toThrowError(
+      HeaderParseError,
+    )
+    expect(() => makeMagStripeParser(new StringIO("%ab")).parse()).toThrowError(
+      HeaderParseError,
+    )
+    expect(() =>
+      makeMagStripeParser(new StringIO(";12ab567")).parse(),
+    ).toThrowError(HeaderParseError)
+  })
+
+  test("throws parse error", () => {
+    expect(() =>
+      makeMagStripeParser(new StringIO(track1 + "x")).parse(),
+    ).toThrowError(ParseError)
+    expect(() =>
+      makeMagStripeParser(new StringIO(";636000123?\r")).parse(),
+    ).toThrowError(ParseError)
+  })
+})
@@ -0,0 +1,279 @@
+/**
+ * AAMVA magnetic stripe parsing.
+ *
+ * Produces a {@link ParseResult} with a single DL subfile using the AAMVA
+ * version 01 element IDs.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  HeaderParseError,
+  ParseError,
+  type Parser,
+  type ParseResult,
+} from "./parse.js"
+import { StringIO } from "./stringio.js"
+
+const TRACK_1_MAX_SIZE = 79
+const TRACK_2_MAX_SIZE = 40
+const TRACK_3_MAX_SIZE = 107
+
+const FIELD_SEPARATOR = "^"
+const TRACK_2_FIELD_SEPARATOR = "="
+const END_SENTINEL = "?"
+
+const statePattern = /^[A-Z]{2}$/
+const iinPattern = /^\d{6}$/
+const digitPattern = /^\d$/
+
+type Tracks = {
+  track1?: string
+  track2?: string
+  track3?: string
+}
+
+/**
+ * Read a track up to and including the end sentinel.
+ *
+ * @returns The track data without sentinels
+ */
+const readTrack = (reader: StringIO, maxSize: number): string => {
+  reader.read(1)
+  let track = ""
+  while (true) {
+    const next = reader.read(1)
+    if (next == END_SENTINEL) {
+      return track
+    }
+    track = track + next
+    if (track.length + 2 > maxSize) {
+      throw new ParseError("Track too long", {
+        offset: reader.pos,
+        expected: END_SENTINEL,
+        actual: next,
+      })
+    }
+  }
+}
+
+/**
+ * Read a variable length field terminated by a separator, or ending after
+ * its maximum length.
+ */
+const readField = (
+  data: string,
+  pos: number,
+  maxLength: number,
+): [string, number] => {
+  const idx = data.indexOf(FIELD_SEPARATOR, pos)
+  if (idx != -1 && idx - pos <= maxLength) {
+    return [data.substring(pos, idx), idx + 1]
+  } else {
+    return [data.substring(pos, pos + maxLength), pos + maxLength]
+  }
+}
+
+const readTracks = (reader: StringIO): Tracks => {
+  const tracks: Tracks = {}
+
+  const first = reader.peek(1)
+  if (first != "%" && first != ";") {
+    throw new HeaderParseError("Expected '%' or ';'", {
+      offset: reader.pos,
+      expected: "% or ;",
+      actual: first,
+    })
+  }
+
+  while (true) {
+    const next = reader.peek(1)
+    if (next == "%" && !digitPattern.test(reader.peek(2).charAt(1))) {
+      if (tracks.track1 != null || tracks.track2 != null) {
+        throw new ParseError("Unexpected track 1", { offset: reader.pos })
+      }
+      if (!statePattern.test(reader.peek(3).substring(1))) {
+        throw new HeaderParseError("Invalid track 1 jurisdiction", {
+          offset: reader.pos + 1,
+          expected: "a state code",
+          actual: reader.peek(3).substring(1),
+        })
+      }
+      tracks.track1 = readTrack(reader, TRACK_1_MAX_SIZE)
+    } else if (next == ";") {
+      if (tracks.track2 != null || tracks.track3 != null) {
+        throw new ParseError("Unexpected track 2", { offset: reader.pos })
+      }
+      const iin = reader.peek(7).substring(1)
+      if (!iinPattern.test(iin)) {
+        throw new HeaderParseError("Invalid track 2 IIN", {
+          offset: reader.pos + 1,
+          expected: "a 6 digit IIN",
+          actual: iin,
+        })
+      }
+      tracks.track2 = readTrack(reader, TRACK_2_MAX_SIZE)
+    } else if (next == "%") {
+      if (tracks.track3 != null) {
+        throw new ParseError("Unexpected track 3", { offset: reader.pos })
+      }
+      tracks.track3 = readTrack(reader, TRACK_3_MAX_SIZE)
+      return tracks
+    } else if (next == "\r" || next == "\n") {
+      // the reader ends the swipe with a line break
+      return tracks
+    } else {
+      throw new ParseError(
+        `Unexpected character 0x${next.charCodeAt(0).toString(16)}`,
+        { offset: reader.pos, actual: next },
+      )
+    }
+  }
+}
+
+const setValue = (
+  records: Map<string, string>,
+  key: string,
+  value: string | undefined,
+) => {
+  const trimmed = value?.trim()
+  if (trimmed) {
+    records.set(key, trimmed)
+  }
+}
+
+const parseTrack1 = (track: string, records: Map<string, string>) => {
+  setValue(records, "DAJ", track.substring(0, 2))
+  const [city, namePos] = readField(track, 2, 13)
+  const [name, addressPos] = readField(track, namePos, 35)
+  const [address] = readField(track, addressPos, 77)
+  const [street1, ...street2] = address.split("$")
+
+  setValue(records, "DAI", city)
+  setValue(records, "DAA", name)
+  setValue(records, "DAG", street1)
+  setValue(records, "DAH", street2.join(" "))
+}
+
+const getLastDayOfMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate()
+
+// expiration month 77 means the card does not expire
+const NON_EXPIRING_DATE = "99991231"
+
+const parseExpiration = (
+  expiration: string,
+  dateOfBirth: string,
+): string | undefined => {
+  const year = 2000 + parseInt(expiration.substring(0, 2), 10)
+  const month = parseInt(expiration.substring(2, 4), 10)
+  const birthMonth = parseInt(dateOfBirth.substring(4, 6), 10)
+  const yearStr = year.toString()
+
+  if (month >= 1 && month <= 12) {
+    const day = getLastDayOfMonth(year, month)
+    return `${yearStr}${expiration.substring(2, 4)}${day}`
+  } else if (month == 88 && birthMonth >= 1 && birthMonth <= 12) {
+    // last day of the month of birth
+    const day = getLastDayOfMonth(year, birthMonth)
+    return `${yearStr}${dateOfBirth.substring(4, 6)}${day}`
+  } else if (month == 99) {
+    // birthday
+    return `${yearStr}${dateOfBirth.substring(4, 8)}`
+  } else if (month == 77) {
+    return NON_EXPIRING_DATE
+  }
+}
+
+const parseTrack2 = (track: string, records: Map<string, string>) => {
+  const sepIdx = track.indexOf(TRACK_2_FIELD_SEPARATOR, 6)
+  if (sepIdx == -1) {
+    throw new ParseError("Missing track 2 field separator")
+  }
+  const number = track.substring(6, sepIdx)
+  const expiration = track.substring(sepIdx + 1, sepIdx + 5)
+  const dateOfBirth = track.substring(sepIdx + 5, sepIdx + 13)
+  const overflow = track
+    .substring(sepIdx + 13, sepIdx + 18)
+    .replaceAll(TRACK_2_FIELD_SEPARATOR, "")
+
+  if (!/^\d{4}$/.test(expiration) || !/^\d{8}$/.test(dateOfBirth)) {
+    throw new ParseError("Invalid track 2 dates")
+  }
+
+  setValue(records, "DAQ", number + overflow)
+  setValue(records, "DBA", parseExpiration(expiration, dateOfBirth))
+  setValue(records, "DBB", dateOfBirth)
+}
+
+const parseHeight = (height: string): string | undefined => {
+  // feet and inches, e.g. 509
+  const feet = parseInt(height.substring(0, 1), 10)
+  const inches = parseInt(height.substring(1, 3), 10)
+  if (!isNaN(feet) && !isNaN(inches) && inches < 12) {
+    return `${(feet * 12 + inches).toString().padStart(3, "0")} in`
+  }
+}
+
+const parseTrack3 = (track: string, records: Map<string, string>) => {
+  setValue(records, "DAK", track.substring(2, 13))
+  setValue(records, "DAR", track.substring(13, 15))
+  setValue(records, "DAS", track.substring(15, 25))
+  setValue(records, "DAT", track.substring(25, 29))
+  setValue(records, "DBC", track.substring(29, 30))
+  setValue(records, "DAU", parseHeight(track.substring(30, 33)))
+  setValue(records, "DAW", track.substring(33, 36))
+  setValue(records, "DAZ", track.substring(36, 39))
+  setValue(records, "DAY", track.substring(39, 42))
+}
+
+class _MagStripeParser {
+  constructor(public reader: StringIO) {}
+
+  parse(): ParseResult {
+    // the tracks are short, re-read them from the start every time
+    const reader = new StringIO(this.reader.data, this.reader.pos)
+    const tracks = readTracks(reader)
+
+    const records = new Map<string, string>()
+    if (tracks.track1 != null) {
+      parseTrack1(tracks.track1, records)
+    }
+    if (tracks.track2 != null) {
+      parseTrack2(tracks.track2, records)
+    }
+    if (tracks.track3 != null) {
+      parseTrack3(tracks.track3, records)
+    }
+
+    const raw = reader.data.substring(this.reader.pos, reader.pos)
+    const jurisdictionVersion = tracks.track3?.charAt(1) || "0"
+
+    return {
+      header: {
+        dataElementSeparator: FIELD_SEPARATOR,
+        recordSeparator: "",
+        segmentTerminator: END_SENTINEL,
+        iin: tracks.track2?.substring(0, 6) ?? "",
+        // the records always use the version 01 element IDs
+        aamvaVersion: "01",
+        jurisdictionVersion: `0${jurisdictionVersion}`,
+        numEntries: 1,
+      },
+      subfileDesignators: [{ type: "DL", offset: 0, length: raw.length }],
+      subfiles: new Map([["DL", records]]),
+      rawSubfiles: new Map([["DL", raw]]),
+      warnings: [],
+    }
+  }
+}
+
+/**
+ * Make a {@link Parser} for AAMVA magnetic stripe data.
+ *
+ * Parsing completes after track 3, or after a line break following an
+ * earlier track.
+ */
+export const makeMagStripeParser = (reader: StringIO): Parser => {
+  return new _MagStripeParser(reader)
+}
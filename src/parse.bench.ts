@@ -0,0 +1,61 @@
+import { bench, describe } from "vitest"
+import { encodeDLID } from "./encode.js"
+import { makeDLIDParser, type SubfileData } from "./parse.js"
+import { StringIO } from "./stringio.js"
+
+const LETTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ"
+
+const makeRecords = (prefix: string): SubfileData =>
+  new Map(
+    Array.from({ length: 40 }, (_, i) => [
+      `${prefix}${LETTERS.charAt(i / 26)}${LETTERS.charAt(i % 26)}`,
+      `VALUE ${i} ${"X".repeat(10)}`,
+    ]),
+  )
+
+// close to the largest payload the 4 digit offsets allow
+const largeData = encodeDLID({
+  header: {
+    dataElementSeparator: "\n",
+    recordSeparator: "\x1e",
+    segmentTerminator: "\r",
+    iin: "636000",
+    aamvaVersion: "10",
+    jurisdictionVersion: "00",
+    numEntries: 0,
+  },
+  subfiles: new Map([
+    ["DL", makeRecords("D")],
+    ...Array.from(
+      { length: 8 },
+      (_, i) => [`Z${i}`, makeRecords("Z")] as const,
+    ),
+  ]),
+})
+
+const parseChunked = (data: string, size: number) => {
+  const reader = new StringIO("")
+  const parser = makeDLIDParser(reader)
+  for (let i = 0; i < data.length; i += size) {
+    reader.append(data.substring(i, i + size))
+    try {
+      parser.parse()
+    } catch {
+      // wait for more data
+    }
+  }
+}
+
+describe(`parse ${largeData.length} characters`, () => {
+  bench("at once", () => {
+    makeDLIDParser(new StringIO(largeData)).parse()
+  })
+
+  bench("in 64 character chunks", () => {
+    parseChunked(largeData, 64)
+  })
+
+  bench("one character at a time", () => {
+    parseChunked(largeData, 1)
+  })
+})
@@ -1,11 +1,24 @@
 import { describe, expect, test } from "vitest"
+import { encodeDLID } from "./encode.js"
 import {
   HeaderParseError,
+  isLegacyVersion,
   makeDLIDParser,
   ParseError,
   type Header,
+  type ParseResult,
+  type ParserOptions,
 } from "./parse.js"
 import { EOF, StringIO } from "./stringio.js"
+import {
+  corruptCard,
+  corruptions,
+  generateCard,
+  makeRandom,
+  type Corruption,
+  type Random,
+  type SyntheticCard,
+} from "./synthetic.js"
 
 // from https://www.aamva.org/assets/best-practices,-guides,-standards,-manuals,-whitepapers/aamva-dl-id-card-design-standard-(2020)
 // but also the DL data offset is off by 1?
@@ -124,6 +137,7 @@ const exampleDataSubfiles = new Map(
         DDD: "1",
       }),
     ),
+    ZV: new Map(Object.entries({ ZVA: "01" })),
   }),
 )
 
@@ -142,6 +156,37 @@ describe("parser", () => {
 
     expect(res.header).toStrictEqual(exampleDataHeader)
     expect(res.subfiles).toStrictEqual(exampleDataSubfiles)
+    expect(res.warnings.map((w) => [w.type, w.subfileType])).toStrictEqual([
+      ["separator", "DL"],
+      ["separator", "ZV"],
+    ])
+  })
+
+  test("re-encodes test data", () => {
+    const parser = makeDLIDParser(new StringIO(exampleData))
+    const res = parser.parse()
+
+    expect(encodeDLID(res)).toBe(exampleData)
+  })
+
+  test("keeps raw subfile text", () => {
+    const parser = makeDLIDParser(new StringIO(exampleData))
+    const res = parser.parse()
+
+    expect(res.rawSubfiles.get("DL")).toBe(exampleData.substring(41, 318))
+    expect(res.rawSubfiles.get("ZV")).toBe("ZVZVA01\r")
+  })
+
+  test("keeps non-standard jurisdiction subfiles", () => {
+    const data =
+      "@\n\x1e\rANSI 636000110002DL00410012ZX00530006" +
+      "DLDAQT64235\r" +
+      "ZX123\r"
+    const parser = makeDLIDParser(new StringIO(data))
+    const res = parser.parse()
+
+    expect(res.subfiles.get("ZX")).toStrictEqual(new Map())
+    expect(res.rawSubfiles.get("ZX")).toBe("ZX123\r")
   })
 
   test("parses with multiple appends", () => {
@@ -150,9 +195,11 @@ describe("parser", () => {
 
     reader.append(exampleData.substring(0, 10))
     expect(() => parser.parse()).toThrowError(EOF)
+    expect(parser.header).toBeUndefined()
 
     reader.append(exampleData.substring(10, 100))
     expect(() => parser.parse()).toThrowError(EOF)
+    expect(parser.header).toStrictEqual(exampleDataHeader)
 
     reader.append(exampleData.substring(100, 300))
     expect(() => parser.parse()).toThrowError(EOF)
@@ -164,6 +211,175 @@ describe("parser", () => {
     expect(res.subfiles).toStrictEqual(exampleDataSubfiles)
   })
 
+  test("parses one character at a time", () => {
+    const reader = new StringIO("")
+    const records: string[] = []
+    const parser = makeDLIDParser(reader, {
+      onRecord: (type, id, value) => records.push(`${type}:${id}=${value}`),
+    })
+
+    for (const c of exampleData.substring(0, exampleData.length - 1)) {
+      reader.append(c)
+      expect(() => parser.parse()).toThrowError(EOF)
+    }
+    expect(records.slice(0, 2)).toStrictEqual([
+      "DL:DAQ=T64235789",
+      "DL:DCS=SAMPLE",
+    ])
+    expect(records).toHaveLength(28)
+
+    reader.append(exampleData.charAt(exampleData.length - 1))
+    const res = parser.parse()
+    expect(res.subfiles).toStrictEqual(exampleDataSubfiles)
+    expect(res.rawSubfiles.get("ZV")).toBe("ZVZVA01\r")
+    expect(reader.pos).toBe(exampleData.length)
+  })
+
+  test("throws parse error on wrong offset", () => {
+    const data = exampleData.replace("DL00410277", "DL00400277")
+    const parser = makeDLIDParser(new StringIO(data))
+
+    expect(() => parser.parse()).toThrowError(ParseError)
+  })
+
+  test("recovers from wrong offset in lenient mode", () => {
+    const data = exampleData.replace("DL00410277", "DL00400277")
+    const parser = makeDLIDParser(new StringIO(data), { lenient: true })
+    const res = parser.parse()
+
+    expect(res.subfiles).toStrictEqual(exampleDataSubfiles)
+    expect(res.warnings).toStrictEqual([
+      {
+        type: "subfileOffset",
+        subfileType: "DL",
+        message: "Subfile 'DL' found at offset 41 instead of 40",
+        declared: 40,
+        actual: 41,
+      },
+    ])
+  })
+
+  test("recovers from wrong length in lenient mode", () => {
+    const data = exampleData.replace("ZV03180008", "ZV03190012")
+    const parser = makeDLIDParser(new StringIO(data), { lenient: true })
+    const res = parser.parse()
+
+    expect(res.subfiles).toStrictEqual(exampleDataSubfiles)
+    expect(res.rawSubfiles.get("ZV")).toBe("ZVZVA01\r")
+    expect(
+      res.warnings.map((w) => [w.type, w.declared, w.actual]),
+    ).toStrictEqual([
+      ["subfileOffset", 319, 318],
+      ["subfileLength", 12, 8],
+    ])
+  })
+
+  test("waits for data in lenient mode", () => {
+    const data = exampleData.replace("DL00410277", "DL00500200")
+    const reader = new StringIO("")
+    const parser = makeDLIDParser(reader, { lenient: true })
+
+    reader.append(data.substring(0, 200))
+    expect(() => parser.parse()).toThrowError(EOF)
+
+    reader.append(data.substring(200))
+    const res = parser.parse()
+
+    expect(res.subfiles).toStrictEqual(exampleDataSubfiles)
+    expect(res.warnings.map((w) => w.type)).toStrictEqual([
+      "subfileOffset",
+      "subfileLength",
+    ])
+  })
+
+  test("skips a missing subfile in lenient mode", () => {
+    const data = exampleData.replace("ZVZVA01", "XXZVA01")
+    const reader = new StringIO("")
+    const parser = makeDLIDParser(reader, { lenient: true })
+
+    reader.append(data.substring(0, data.length - 1))
+    expect(() => parser.parse()).toThrowError(EOF)
+
+    reader.append(data.substring(data.length - 1))
+    const res = parser.parse()
+
+    expect(Array.from(res.subfiles.keys())).toStrictEqual(["DL"])
+    expect(res.warnings).toStrictEqual([
+      {
+        type: "subfileMissing",
+        subfileType: "ZV",
+        message: "Subfile 'ZV' not found",
+        declared: 318,
+      },
+    ])
+  })
+
+  test("skips a jurisdiction subfile at the wrong offset", () => {
+    const data = exampleData.replace("ZV03180008", "ZV03170008")
+    const res = makeDLIDParser(new StringIO(data)).parse()
+
+    expect(res.subfiles.get("DL")?.get("DCS")).toBe("SAMPLE")
+    expect(res.subfiles.has("ZV")).toBe(false)
+    expect(res.warnings).toStrictEqual([
+      {
+        type: "subfileMissing",
+        subfileType: "ZV",
+        message: "Subfile 'ZV' not found at offset 317",
+        declared: 317,
+      },
+    ])
+  })
+
+  test("rejects a document subfile at the wrong offset", () => {
+    const data = exampleData.replace("DL00410277", "DL00400277")
+    const parser = makeDLIDParser(new StringIO(data))
+
+    expect(() => parser.parse()).toThrowError(
+      "Subfile 'DL' not found at offset 40",
+    )
+  })
+
+  test("parses legacy version 01 header", () => {
+    const data =
+      "@\n\x1e\rANSI 6360000101DL00290032" +
+      "DLDAASAMPLE,MICHAEL\nDBB20060606\r"
+    const parser = makeDLIDParser(new StringIO(data))
+    const res = parser.parse()
+
+    expect(res.header).toStrictEqual({
+      ...exampleDataHeader,
+      aamvaVersion: "01",
+      numEntries: 1,
+    })
+    expect(res.subfiles).toStrictEqual(
+      new Map([
+        [
+          "DL",
+          new Map([
+            ["DAA", "SAMPLE,MICHAEL"],
+            ["DBB", "20060606"],
+          ]),
+        ],
+      ]),
+    )
+    expect(encodeDLID(res)).toBe(data)
+  })
+
+  test("parses legacy AAMVA file type", () => {
+    const data =
+      "@\n\x1e\rAAMVA6360000001DL00300032" +
+      "DLDAASAMPLE,MICHAEL\nDBB20060606\r"
+    const parser = makeDLIDParser(new StringIO(data))
+    const res = parser.parse()
+
+    expect(res.header.aamvaVersion).toBe("00")
+    expect(res.header.jurisdictionVersion).toBe("00")
+    expect(res.subfiles.get("DL")?.get("DAA")).toBe("SAMPLE,MICHAEL")
+    expect(
+      res.warnings.map((w) => [w.type, w.declared, w.actual]),
+    ).toStrictEqual([["subfileOffset", 30, 29]])
+  })
+
   test("throws header parse error", () => {
     const reader = new StringIO("")
     const parser = makeDLIDParser(reader)
@@ -176,7 +392,195 @@ describe("parser", () => {
     const reader = new StringIO("")
     const parser = makeDLIDParser(reader)
 
-    reader.append("@...ANSI 0000000000ZZXXXXXX")
+    reader.append("@...ANSI 0000001000ZZXXXXXX")
     expect(() => parser.parse()).toThrowError(ParseError)
   })
+
+  test("reports error details", () => {
+    const parser = makeDLIDParser(new StringIO("@\n\x1e\rANSI 6360000800XX"))
+
+    expect(() => parser.parse()).toThrowError(
+      expect.objectContaining({
+        message: "Invalid number of entries: 'XX'",
+        offset: 19,
+        phase: { type: "header" },
+        expected: "a 2 digit number",
+        actual: "XX",
+      }),
+    )
+  })
+
+  test("reports subfile error details", () => {
+    const data = exampleData.replace("DL00410277", "DL00400277")
+    const parser = makeDLIDParser(new StringIO(data))
+
+    expect(() => parser.parse()).toThrowError(
+      expect.objectContaining({
+        offset: 40,
+        phase: { type: "subfile", subfileType: "DL" },
+        expected: "DL",
+        actual: "8D",
+      }),
+    )
+  })
+
+  test("reports designator error details", () => {
+    const data = exampleData.replace("ZV03180008", "ZVX3180008")
+    const parser = makeDLIDParser(new StringIO(data))
+
+    expect(() => parser.parse()).toThrowError(
+      expect.objectContaining({
+        message: "Invalid offset 'X318'",
+        offset: 33,
+        phase: { type: "designator", index: 1 },
+      }),
+    )
+  })
+})
+
+describe("fuzz", () => {
+  type Outcome =
+    | Readonly<{ result: ParseResult }>
+    | Readonly<{ error: string; message: string }>
+
+  const toOutcome = (e: unknown): Outcome => {
+    if (e instanceof EOF) {
+      return { error: "EOF", message: "" }
+    } else if (e instanceof ParseError) {
+      return { error: "ParseError", message: e.message }
+    }
+    throw e
+  }
+
+  const parseWhole = (payload: string, options: ParserOptions): Outcome => {
+    try {
+      return { result: makeDLIDParser(new StringIO(payload), options).parse() }
+    } catch (e) {
+      return toOutcome(e)
+    }
+  }
+
+  const parseChunked = (
+    payload: string,
+    options: ParserOptions,
+    random: Random,
+    maxChunk: number,
+  ): Outcome => {
+    const reader = new StringIO("")
+    const parser = makeDLIDParser(reader, options)
+    let outcome: Outcome = { error: "EOF", message: "" }
+    for (let pos = 0; pos < payload.length;) {
+      const size = 1 + Math.floor(random() * maxChunk)
+      reader.append(payload.substring(pos, pos + size))
+      pos += size
+      try {
+        return { result: parser.parse() }
+      } catch (e) {
+        outcome = toOutcome(e)
+        if (!(e instanceof EOF)) {
+          return outcome
+        }
+      }
+    }
+    return outcome
+  }
+
+  const seeds = Array.from({ length: 100 }, (_, i) => i)
+
+  const expectCorruptionOutcome = (
+    corruption: Corruption,
+    card: SyntheticCard,
+    options: ParserOptions,
+    outcome: Outcome,
+  ) => {
+    const lenient = options.lenient || isLegacyVersion(card.header.aamvaVersion)
+    switch (corruption) {
+      case "truncate":
+        expect(outcome).toStrictEqual({ error: "EOF", message: "" })
+        break
+      case "offset":
+      case "length":
+        if (lenient) {
+          expect(outcome).toStrictEqual({
+            result: expect.objectContaining({
+              subfiles: card.subfiles,
+              warnings: [
+                expect.objectContaining({
+                  type:
+                    corruption == "offset" ? "subfileOffset" : "subfileLength",
+                }),
+              ],
+            }),
+          })
+        } else if (corruption == "offset") {
+          // document subfiles are required, jurisdiction subfiles skipped
+          if ("result" in outcome) {
+            expect(outcome.result.warnings).toStrictEqual([
+              expect.objectContaining({
+                type: "subfileMissing",
+                subfileType: expect.stringMatching(/^Z/),
+              }),
+            ])
+          } else {
+            expect(outcome.error).toBe("ParseError")
+          }
+        } else {
+          // the declared length is trusted, and may end the data early
+          expect(outcome).not.toMatchObject({ error: "ParseError" })
+        }
+        break
+      case "separator":
+        // the elements run together
+        expect(outcome).toHaveProperty("result")
+        expect(outcome).not.toStrictEqual({
+          result: expect.objectContaining({ subfiles: card.subfiles }),
+        })
+        break
+      case "header":
+        expect(outcome).toStrictEqual({
+          error: "ParseError",
+          message: expect.stringMatching(/^Invalid separator/),
+        })
+        break
+    }
+  }
+
+  describe.each([
+    ["strict", {}],
+    ["lenient", { lenient: true }],
+  ] as const)("%s", (_, options) => {
+    test.each(seeds)("parses generated card %i", (seed) => {
+      const random = makeRandom(seed)
+      const card = generateCard(random)
+      const whole = parseWhole(card.payload, options)
+
+      expect(whole).toStrictEqual({
+        result: expect.objectContaining({
+          header: card.header,
+          subfiles: card.subfiles,
+        }),
+      })
+      for (const maxChunk of [1, 7, 64]) {
+        expect(
+          parseChunked(card.payload, options, random, maxChunk),
+        ).toStrictEqual(whole)
+      }
+    })
+
+    test.each(seeds)("handles corrupted card %i", (seed) => {
+      const random = makeRandom(seed)
+      const card = generateCard(random)
+      const corruption =
+        corruptions[seed % corruptions.length] ?? corruptions[0]
+      const payload = corruptCard(random, card, corruption)
+      const whole = parseWhole(payload, options)
+      expectCorruptionOutcome(corruption, card, options, whole)
+
+      for (const maxChunk of [1, 7, 64]) {
+        expect(parseChunked(payload, options, random, maxChunk)).toStrictEqual(
+          whole,
+        )
+      }
+    })
+  })
 })
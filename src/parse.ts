@@ -4,6 +4,7 @@
  * @packageDocumentation
  */
 
+import { filterElement, type PrivacyOptions } from "./privacy.js"
 import { EOF, StringIO } from "./stringio.js"
 
 /**
@@ -38,6 +39,27 @@ export type SubfileData = ReadonlyMap<string, string>
  */
 export type Subfiles = ReadonlyMap<string, SubfileData>
 
+/**
+ * Mapping of subfile IDs to the raw subfile text.
+ */
+export type RawSubfiles = ReadonlyMap<string, string>
+
+/**
+ * A problem in the data that did not stop parsing.
+ *
+ * - `subfileOffset` - the subfile was not at its declared offset
+ * - `subfileLength` - the subfile did not have its declared length
+ * - `subfileMissing` - the subfile was not found, and was skipped
+ * - `separator` - a data element separator preceded the segment terminator
+ */
+export type ParseWarning = Readonly<{
+  type: "subfileOffset" | "subfileLength" | "subfileMissing" | "separator"
+  subfileType: string
+  message: string
+  declared?: number | undefined
+  actual?: number | undefined
+}>
+
 /**
  * DL/ID parse result type.
  */
@@ -45,6 +67,8 @@ export type ParseResult = Readonly<{
   header: Header
   subfileDesignators: readonly SubfileDesignator[]
   subfiles: Subfiles
+  rawSubfiles: RawSubfiles
+  warnings: readonly ParseWarning[]
 }>
 
 /**
@@ -52,14 +76,81 @@ export type ParseResult = Readonly<{
  */
 export type Parser = Readonly<{
   parse(): ParseResult
+
+  /**
+   * The header, once it has been parsed.
+   */
+  header?: Header | undefined
+}>
+
+/**
+ * DL/ID parser options.
+ */
+export type ParserOptions = Readonly<{
+  /**
+   * Locate subfiles by their type marker when the declared offset or length
+   * is wrong, and report each correction in {@link ParseResult.warnings}.
+   *
+   * Legacy AAMVA versions (00 and 01) are always parsed this way.
+   */
+  lenient?: boolean | undefined
+
+  /**
+   * Called with each record as soon as it has been read, before the whole
+   * document is complete.
+   */
+  onRecord?:
+    ((subfileType: string, id: string, value: string) => void) | undefined
+
+  /**
+   * Keep only allowed elements, and no raw subfile text.
+   */
+  privacy?: PrivacyOptions | undefined
 }>
 
 const SUBFILE_DESIGNATOR_SIZE = 10
 
-export class ParseError extends Error {}
+/**
+ * The part of the payload being parsed when an error occurred.
+ */
+export type ParsePhase =
+  | Readonly<{ type: "header" }>
+  | Readonly<{ type: "designator"; index: number }>
+  | Readonly<{ type: "subfile"; subfileType: string }>
+  | Readonly<{ type: "record"; subfileType: string; key: string }>
+
+/**
+ * {@link ParseError} details.
+ */
+export type ParseErrorDetails = Readonly<{
+  /**
+   * The absolute character offset in the payload.
+   */
+  offset?: number | undefined
+  phase?: ParsePhase | undefined
+  expected?: string | undefined
+  actual?: string | undefined
+}>
+
+export class ParseError extends Error {
+  readonly offset: number | undefined
+  readonly phase: ParsePhase | undefined
+  readonly expected: string | undefined
+  readonly actual: string | undefined
+
+  constructor(message: string, details: ParseErrorDetails = {}) {
+    super(message)
+    this.offset = details.offset
+    this.phase = details.phase
+    this.expected = details.expected
+    this.actual = details.actual
+  }
+}
 
 export class HeaderParseError extends ParseError {}
 
+const HEADER_PHASE: ParsePhase = { type: "header" }
+
 const invalidSeparatorPattern = /[a-zA-Z0-9 ]/
 const recordKeyPattern = /[A-Z]{3}/
 
@@ -71,24 +162,58 @@ type ParseFuncResult = Readonly<{
 type ParseFunc = (result: ParseResult) => ParseFuncResult
 
 const readSeparator = (reader: StringIO): string => {
+  const offset = reader.pos
   const sep = reader.read(1)
   if (invalidSeparatorPattern.test(sep)) {
     throw new HeaderParseError(
       `Invalid separator 0x${sep.charCodeAt(0).toString(16)}`,
+      {
+        offset,
+        phase: HEADER_PHASE,
+        expected: "a separator character",
+        actual: sep,
+      },
     )
   }
   return sep
 }
 
+/**
+ * Whether an AAMVA version uses the legacy header layout, without a
+ * jurisdiction version and with unreliable subfile offsets.
+ */
+export const isLegacyVersion = (aamvaVersion: string): boolean => {
+  const version = parseInt(aamvaVersion, 10)
+  return !isNaN(version) && version <= 1
+}
+
+const headerStartPattern = /@[^a-zA-Z0-9 ]{3}(?:ANSI |AAMVA)/g
+
+/**
+ * Find the start of a DL/ID header, "@", the separators and the file type.
+ *
+ * @returns The offset, or -1 if not found
+ */
+export const findHeaderStart = (data: string, from = 0): number => {
+  headerStartPattern.lastIndex = from
+  return headerStartPattern.exec(data)?.index ?? -1
+}
+
 const makeParseHeaderFunc = (reader: StringIO): ParseFunc => {
   return (result) => {
+    let legacyFileType = false
     return {
       result,
       next: [
         (result) => {
           const a = reader.read(1)
           if (a != "@") {
-            throw new HeaderParseError("Expected '@'")
+            throw new HeaderParseError("Expected '@'", {
+              offset: reader.pos - 1,
+              phase: HEADER_PHASE,
+              expected: "@",
+              actual: a,
+            })
           }
           return { result }
         },
@@ -129,8 +254,16 @@ const makeParseHeaderFunc = (reader: StringIO): ParseFunc => {
           }
         },
         (result) => {
-          if (reader.read(5) != "ANSI ") {
-            throw new ParseError("Invalid header")
+          const fileType = reader.read(5)
+          if (fileType == "AAMVA") {
+            legacyFileType = true
+          } else if (fileType != "ANSI ") {
+            throw new ParseError("Invalid header", {
+              offset: reader.pos - 5,
+              phase: HEADER_PHASE,
+              expected: "ANSI ",
+              actual: fileType,
+            })
           }
           return { result }
         },
@@ -159,7 +292,11 @@ const makeParseHeaderFunc = (reader: StringIO): ParseFunc => {
           }
         },
         (result) => {
-          const jurisdictionVersion = reader.read(2)
+          // not present in legacy headers
+          const jurisdictionVersion =
+            legacyFileType || isLegacyVersion(result.header.aamvaVersion)
+              ? "00"
+              : reader.read(2)
           return {
             result: {
               ...result,
@@ -171,9 +308,15 @@ const makeParseHeaderFunc = (reader: StringIO): ParseFunc => {
           }
         },
         (result) => {
-          const numEntries = parseInt(reader.read(2))
+          const text = reader.read(2)
+          const numEntries = parseInt(text)
           if (isNaN(numEntries)) {
-            throw new ParseError(`Invalid number of entries: '${numEntries}'`)
+            throw new ParseError(`Invalid number of entries: '${text}'`, {
+              offset: reader.pos - 2,
+              phase: HEADER_PHASE,
+              expected: "a 2 digit number",
+              actual: text,
+            })
           }
           return {
             result: {
@@ -195,7 +338,7 @@ const makeParseSubfileDesignatorsFunc = (reader: StringIO): ParseFunc => {
     const entries = result.header.numEntries
     const next: ParseFunc[] = []
     for (let i = 0; i < entries; i++) {
-      next.push(makeParseSubfileDesignatorFunc(reader))
+      next.push(makeParseSubfileDesignatorFunc(reader, i))
     }
 
     return {
@@ -205,18 +348,35 @@ const makeParseSubfileDesignatorsFunc = (reader: StringIO): ParseFunc => {
   }
 }
 
-const makeParseSubfileDesignatorFunc = (reader: StringIO): ParseFunc => {
+const makeParseSubfileDesignatorFunc = (
+  reader: StringIO,
+  index: number,
+): ParseFunc => {
   return (result) => {
+    const start = reader.pos
     const copied = new StringIO(reader.peek(SUBFILE_DESIGNATOR_SIZE))
+    const phase: ParsePhase = { type: "designator", index }
 
     const type = copied.read(2)
-    const offset = parseInt(copied.read(4))
-    const length = parseInt(copied.read(4))
+    const offsetText = copied.read(4)
+    const lengthText = copied.read(4)
+    const offset = parseInt(offsetText)
+    const length = parseInt(lengthText)
     if (isNaN(offset)) {
-      throw new ParseError(`Invalid offset '${offset}`)
+      throw new ParseError(`Invalid offset '${offsetText}'`, {
+        offset: start + 2,
+        phase,
+        expected: "a 4 digit number",
+        actual: offsetText,
+      })
     }
     if (isNaN(length)) {
-      throw new ParseError(`Invalid length '${length}`)
+      throw new ParseError(`Invalid length '${lengthText}'`, {
+        offset: start + 6,
+        phase,
+        expected: "a 4 digit number",
+        actual: lengthText,
+      })
     }
 
     reader.read(SUBFILE_DESIGNATOR_SIZE)
@@ -237,11 +397,39 @@ const makeParseSubfileDesignatorFunc = (reader: StringIO): ParseFunc => {
   }
 }
 
-const makeParseSubfilesFunc = (reader: StringIO): ParseFunc => {
+/**
+ * Extent of the subfile data, shared by the subfile parse steps.
+ */
+type Body = {
+  // offset right after the subfile designators
+  start: number
+  // end of the last subfile read
+  end: number
+  // end of the data according to the subfile designators
+  declaredEnd: number
+}
+
+const makeParseSubfilesFunc = (
+  reader: StringIO,
+  options: ParserOptions,
+): ParseFunc => {
   return (result) => {
-    const next: ParseFunc[] = []
-    result.subfileDesignators.forEach((sd) => {
-      next.push((result) => parseSubfile(reader, result, sd))
+    const body: Body = {
+      start: reader.pos,
+      end: reader.pos,
+      declaredEnd: Math.max(
+        reader.pos,
+        ...result.subfileDesignators.map((sd) => sd.offset + sd.length),
+      ),
+    }
+    const next: ParseFunc[] = result.subfileDesignators.map((sd) =>
+      makeParseSubfileFunc(reader, body, sd, options),
+    )
+
+    // leave the reader after the data
+    next.push((result) => {
+      reader.pos = body.end
+      return { result }
     })
 
     return {
@@ -251,112 +439,256 @@ const makeParseSubfilesFunc = (reader: StringIO): ParseFunc => {
   }
 }
 
-const parseSubfile = (
+/**
+ * Make a function to find a subfile by its type marker.
+ *
+ * Each call only searches data appended since the last call.
+ *
+ * @returns The offset, or undefined if the data ended without the marker
+ */
+const makeFindSubfileOffset = (
   reader: StringIO,
-  result: ParseResult,
+  body: Body,
   subfileDesignator: SubfileDesignator,
-): ParseFuncResult => {
-  const copied = new StringIO(reader.data, subfileDesignator.offset)
-  const sfReader = new StringIO(copied.peek(subfileDesignator.length))
-
-  if (subfileDesignator.type == "DL" || subfileDesignator.type == "ID") {
-    sfReader.read(2)
-    const records = new Map()
-    return {
-      result,
-      next: [
-        (result) =>
-          maybeParseRecord(sfReader, result, subfileDesignator.type, records),
-      ],
-    }
-  } else {
-    return {
-      result,
+) => {
+  let searched = body.start
+
+  return (result: ParseResult): number | undefined => {
+    // subfiles start right after the designators or after a segment terminator
+    const { type, offset } = subfileDesignator
+    let found: number | undefined = undefined
+
+    let idx = reader.indexOf(type, searched)
+    while (idx != -1) {
+      if (
+        (idx == body.start ||
+          reader.slice(idx - 1, idx) == result.header.segmentTerminator) &&
+        (found == null || Math.abs(idx - offset) < Math.abs(found - offset))
+      ) {
+        found = idx
+      }
+      idx = reader.indexOf(type, idx + 1)
     }
-  }
-}
+    searched = Math.max(searched, reader.length - type.length + 1)
 
-const maybeParseRecord = (
-  reader: StringIO,
-  result: ParseResult,
-  sfType: string,
-  records: Map<string, string>,
-): ParseFuncResult => {
-  let next
-  try {
-    next = reader.peek(1)
-  } catch (e) {
-    if (e instanceof EOF) {
-      // eof, treat as no more records
-      const newSubfiles = new Map(result.subfiles)
-      newSubfiles.set(sfType, records)
-      return {
-        result: {
-          ...result,
-          subfiles: newSubfiles,
-        },
+    if (found == null) {
+      const { segmentTerminator } = result.header
+      if (reader.indexOf(segmentTerminator, body.declaredEnd - 1) != -1) {
+        // the last subfile has ended
+        return undefined
       }
-    } else {
-      throw e
+      // may not have been read yet
+      throw new EOF()
     }
+    return found
   }
+}
 
-  if (next == result.header.segmentTerminator) {
-    // no more records
-    reader.read(1)
-    const newSubfiles = new Map(result.subfiles)
-    newSubfiles.set(sfType, records)
-    return {
+const makeParseSubfileFunc = (
+  reader: StringIO,
+  body: Body,
+  subfileDesignator: SubfileDesignator,
+  options: ParserOptions,
+): ParseFunc => {
+  return (result) => {
+    const { type } = subfileDesignator
+    const { segmentTerminator, dataElementSeparator } = result.header
+    const lenient =
+      options.lenient || isLegacyVersion(result.header.aamvaVersion)
+    const findSubfileOffset = makeFindSubfileOffset(
+      reader,
+      body,
+      subfileDesignator,
+    )
+    const records = new Map<string, string>()
+    const warnings: ParseWarning[] = []
+    const separatorWarnings: ParseWarning[] = []
+    let offset = subfileDesignator.offset
+    // the subfile length is found from the segment terminator when lenient
+    let end = lenient ? Infinity : offset + subfileDesignator.length
+
+    const skip = (result: ParseResult, message: string): ParseFuncResult => ({
       result: {
         ...result,
-        subfiles: newSubfiles,
+        warnings: [
+          ...result.warnings,
+          {
+            type: "subfileMissing",
+            subfileType: type,
+            message,
+            declared: subfileDesignator.offset,
+          },
+        ],
       },
+    })
+
+    const locate: ParseFunc = (result) => {
+      const marker = reader.slice(offset, offset + type.length)
+      if (marker != type) {
+        if (!lenient && type != "DL" && type != "ID") {
+          // jurisdiction-specific subfiles are optional
+          return skip(result, `Subfile '${type}' not found at offset ${offset}`)
+        } else if (!lenient) {
+          throw new ParseError(
+            `Subfile '${type}' not found at offset ${offset}`,
+            {
+              offset,
+              phase: { type: "subfile", subfileType: type },
+              expected: type,
+              actual: marker,
+            },
+          )
+        }
+
+        const found = findSubfileOffset(result)
+        if (found == null) {
+          return skip(result, `Subfile '${type}' not found`)
+        }
+
+        offset = found
+        warnings.push({
+          type: "subfileOffset",
+          subfileType: type,
+          message: `Subfile '${type}' found at offset ${offset} instead of ${subfileDesignator.offset}`,
+          declared: subfileDesignator.offset,
+          actual: offset,
+        })
+      }
+
+      reader.pos = offset + type.length
+      return { result, next: [parseRecords, finish] }
     }
-  } else {
-    // read next record
-    return {
-      result,
-      next: [(result) => parseRecord(reader, result, sfType, records)],
+
+    // state of the record being read
+    let key: string | undefined = undefined
+    let value: string[] = []
+    let afterSeparator = false
+
+    const endRecord = () => {
+      if (key != null) {
+        const joined = value.join("")
+        const v = options.privacy
+          ? filterElement(options.privacy, key, joined)
+          : joined
+        if (v != null) {
+          records.set(key, v)
+          options.onRecord?.(type, key, v)
+        }
+      }
+      key = undefined
+      value = []
     }
-  }
-}
 
-const parseRecord = (
-  reader: StringIO,
-  result: ParseResult,
-  sfType: string,
-  records: Map<string, string>,
-): ParseFuncResult => {
-  const copied = new StringIO(reader.data, reader.pos)
-  const key = copied.read(3)
-  if (!recordKeyPattern.test(key)) {
-    throw new ParseError(`Invalid record: '${key}'`)
-  }
+    const parseRecords: ParseFunc = (result) => {
+      for (;;) {
+        if (reader.pos >= end) {
+          // end of subfile, treat as no more records
+          endRecord()
+          return { result }
+        }
+
+        if (afterSeparator) {
+          if (reader.peek(1) == segmentTerminator) {
+            separatorWarnings.push({
+              type: "separator",
+              subfileType: type,
+              message: `Data element separator before segment terminator in subfile '${type}'`,
+            })
+          }
+          afterSeparator = false
+        }
+
+        if (key == null) {
+          if (reader.peek(1) == segmentTerminator) {
+            // no more records
+            reader.read(1)
+            return { result }
+          }
+
+          if (end - reader.pos < 3) {
+            reader.pos = end
+            return { result }
+          }
+
+          const nextKey = reader.peek(3)
+          if (!recordKeyPattern.test(nextKey)) {
+            if (type == "DL" || type == "ID") {
+              throw new ParseError(`Invalid record: '${nextKey}'`, {
+                offset: reader.pos,
+                phase: { type: "record", subfileType: type, key: nextKey },
+                expected: "a record key",
+                actual: nextKey,
+              })
+            }
+
+            // jurisdiction-specific subfiles may not use the standard record
+            // format, keep the records read so far and the raw text
+            return { result }
+          }
+          reader.read(3)
+          key = nextKey
+        }
+
+        value.push(
+          reader.readUntil(dataElementSeparator + segmentTerminator, end),
+        )
+        if (reader.pos < end) {
+          // a separator or terminator, or wait for more data
+          const next = reader.peek(1)
+          endRecord()
+          if (next == dataElementSeparator) {
+            reader.read(1)
+            afterSeparator = true
+          }
+        }
+      }
+    }
+
+    const finish: ParseFunc = (result) => {
+      if (lenient) {
+        const terminator = reader.indexOf(
+          segmentTerminator,
+          Math.max(offset + type.length, reader.pos - 1),
+        )
+        if (terminator == -1) {
+          throw new EOF()
+        }
+        end = terminator + 1
+        const length = end - offset
+        if (length != subfileDesignator.length) {
+          warnings.push({
+            type: "subfileLength",
+            subfileType: type,
+            message: `Subfile '${type}' has length ${length} instead of ${subfileDesignator.length}`,
+            declared: subfileDesignator.length,
+            actual: length,
+          })
+        }
+      }
+
+      const raw = reader.slice(offset, end)
+      body.end = Math.max(body.end, end)
 
-  let val = ""
-
-  while (true) {
-    const next = copied.peek(1)
-    if (
-      next == result.header.segmentTerminator ||
-      next == result.header.dataElementSeparator
-    ) {
-      // end of record
-      records.set(key, val)
-      reader.read(key.length + val.length)
-
-      if (next == result.header.dataElementSeparator) {
-        // read the data element separator
-        reader.read(1)
+      const newSubfiles = new Map(result.subfiles)
+      newSubfiles.set(type, records)
+      const newRawSubfiles = new Map(result.rawSubfiles)
+      if (!options.privacy) {
+        newRawSubfiles.set(type, raw)
       }
 
       return {
-        result,
-        next: [(result) => maybeParseRecord(reader, result, sfType, records)],
+        result: {
+          ...result,
+          subfiles: newSubfiles,
+          rawSubfiles: newRawSubfiles,
+          warnings: [...result.warnings, ...warnings, ...separatorWarnings],
+        },
       }
-    } else {
-      val = val + next
-      copied.read(1)
+    }
+
+    return {
+      result,
+      next: [locate],
     }
   }
 }
@@ -375,16 +707,31 @@ class _Parser {
     },
     subfileDesignators: [],
     subfiles: new Map(),
+    rawSubfiles: new Map(),
+    warnings: [],
   }
 
-  constructor(public reader: StringIO) {
+  private headerParsed = false
+
+  constructor(
+    public reader: StringIO,
+    options: ParserOptions,
+  ) {
     this.funcs = [
       makeParseHeaderFunc(this.reader),
+      (result) => {
+        this.headerParsed = true
+        return { result }
+      },
       makeParseSubfileDesignatorsFunc(this.reader),
-      makeParseSubfilesFunc(this.reader),
+      makeParseSubfilesFunc(this.reader, options),
     ]
   }
 
+  get header(): Header | undefined {
+    return this.headerParsed ? this.result.header : undefined
+  }
+
   parse(): ParseResult {
     while (this.funcs.length > 0) {
       const cur = this.funcs[0]
@@ -403,6 +750,9 @@ class _Parser {
 /**
  * Make a {@link Parser}.
  */
-export const makeDLIDParser = (reader: StringIO): Parser => {
-  return new _Parser(reader)
+export const makeDLIDParser = (
+  reader: StringIO,
+  options: ParserOptions = {},
+): Parser => {
+  return new _Parser(reader, options)
 }
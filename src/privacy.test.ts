@@ -0,0 +1,56 @@
+import { expect, test } from "vitest"
+import { makeDLIDParser } from "./parse.js"
+import { applyPrivacy, maskValue, redactParseResult } from "./privacy.js"
+import { StringIO } from "./stringio.js"
+import { exampleData } from "./test-helpers.js"
+
+test("masks a value", () => {
+  expect(maskValue("SAMPLE")).toBe("******")
+})
+
+test("applies privacy options to a result", () => {
+  const result = makeDLIDParser(new StringIO(exampleData)).parse()
+
+  const redacted = applyPrivacy(result, { allow: ["DCS"] })
+  expect(redacted.subfiles.get("DL")).toStrictEqual(
+    new Map([["DCS", "SAMPLE"]]),
+  )
+  expect(redacted.rawSubfiles.size).toBe(0)
+  expect(redacted.header).toBe(result.header)
+
+  const masked = applyPrivacy(result, { allow: ["DCS"], mode: "mask" })
+  expect(masked.subfiles.get("DL")).toStrictEqual(
+    new Map([
+      ["DAQ", "*********"],
+      ["DCS", "SAMPLE"],
+    ]),
+  )
+})
+
+test("redacts a result for logging", () => {
+  const result = makeDLIDParser(new StringIO(exampleData)).parse()
+
+  const redacted = redactParseResult(result, ["DAQ"])
+  expect(redacted.subfiles.get("DL")).toStrictEqual(
+    new Map([
+      ["DAQ", "T64235789"],
+      ["DCS", "******"],
+    ]),
+  )
+  expect(result.subfiles.get("DL")?.get("DCS")).toBe("SAMPLE")
+})
+
+test("filters elements while parsing", () => {
+  const reader = new StringIO(exampleData)
+  const records: string[] = []
+  const result = makeDLIDParser(reader, {
+    privacy: { allow: ["DAQ"] },
+    onRecord: (type, id, value) => records.push(`${type}:${id}=${value}`),
+  }).parse()
+
+  expect(result.subfiles.get("DL")).toStrictEqual(
+    new Map([["DAQ", "T64235789"]]),
+  )
+  expect(result.rawSubfiles.size).toBe(0)
+  expect(records).toStrictEqual(["DL:DAQ=T64235789"])
+})
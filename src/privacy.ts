@@ -0,0 +1,96 @@
+/**
+ * Privacy controls for parsed DL/ID data.
+ *
+ * @packageDocumentation
+ */
+
+import type { ParseResult, SubfileData } from "./parse.js"
+
+/**
+ * How elements that are not allowed are handled.
+ *
+ * - `redact`: the element is removed
+ * - `mask`: the element is kept with its value masked
+ */
+export type PrivacyMode = "redact" | "mask"
+
+/**
+ * Privacy configuration.
+ *
+ * Raw subfile text is never kept when a privacy configuration is used.
+ */
+export type PrivacyOptions = Readonly<{
+  /**
+   * Element IDs to keep, e.g. `["DCS", "DAC", "DBB"]`.
+   */
+  allow: readonly string[]
+
+  /**
+   * How other elements are handled. Defaults to `redact`.
+   */
+  mode?: PrivacyMode | undefined
+}>
+
+const MASK_CHAR = "*"
+
+/**
+ * Mask a value, keeping only its length.
+ */
+export const maskValue = (value: string): string =>
+  MASK_CHAR.repeat(value.length)
+
+/**
+ * Apply a privacy configuration to an element.
+ *
+ * @returns The value to keep, or undefined to remove the element
+ */
+export const filterElement = (
+  options: PrivacyOptions,
+  id: string,
+  value: string,
+): string | undefined => {
+  if (options.allow.includes(id)) {
+    return value
+  }
+  return options.mode == "mask" ? maskValue(value) : undefined
+}
+
+/**
+ * Apply a privacy configuration to a parse result.
+ *
+ * @returns A new result with only the allowed elements and no raw subfile
+ *   text
+ */
+export const applyPrivacy = (
+  result: ParseResult,
+  options: PrivacyOptions,
+): ParseResult => {
+  const subfiles = new Map<string, SubfileData>()
+  result.subfiles.forEach((data, subfileType) => {
+    const filtered = new Map<string, string>()
+    data.forEach((value, id) => {
+      const v = filterElement(options, id, value)
+      if (v != null) {
+        filtered.set(id, v)
+      }
+    })
+    subfiles.set(subfileType, filtered)
+  })
+
+  return {
+    ...result,
+    subfiles,
+    rawSubfiles: new Map(),
+  }
+}
+
+/**
+ * Mask every element value for logging.
+ *
+ * @param result - The parse result
+ * @param keep - Element IDs to leave unmasked
+ */
+export const redactParseResult = (
+  result: ParseResult,
+  keep: readonly string[] = [],
+): ParseResult => applyPrivacy(result, { allow: keep, mode: "mask" })
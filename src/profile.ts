@@ -0,0 +1,107 @@
+/**
+ * Scanner configuration profiles.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Keyboard wedge scanner configuration.
+ */
+export type ScannerProfile = Readonly<{
+  /**
+   * Characters the scanner sends before the payload.
+   *
+   * The prefix starts capturing and is removed from the input. Without a
+   * prefix, capturing starts on the first character of the payload.
+   */
+  prefix?: string | undefined
+
+  /**
+   * Characters the scanner sends after the payload, discarded after a scan.
+   */
+  suffix?: string | undefined
+
+  /**
+   * Maximum time between characters in ms.
+   */
+  charTimeout: number
+
+  /**
+   * Maximum time for a whole scan in ms.
+   */
+  totalTimeout?: number | undefined
+
+  /**
+   * Maximum time between the first characters of a scan in ms.
+   *
+   * Captures that start slower than this are treated as typing and undone.
+   * Defaults to 50.
+   */
+  burstInterval?: number | undefined
+
+  /**
+   * Number of characters, including the trigger, that must arrive within
+   * {@link ScannerProfile.burstInterval} of each other to confirm a scan.
+   *
+   * Defaults to 4. Use 0 to disable burst detection.
+   */
+  burstLength?: number | undefined
+
+  /**
+   * Also capture magnetic stripe swipes, which start with "%" or ";".
+   *
+   * Off by default, since these characters are common in typing.
+   */
+  magStripe?: boolean | undefined
+
+  /**
+   * Characters replaced in the captured payload.
+   */
+  remap?: Readonly<Record<string, string>> | undefined
+}>
+
+/**
+ * Profile for scanners sending only the payload.
+ */
+export const defaultScannerProfile: ScannerProfile = {
+  charTimeout: 200,
+}
+
+/**
+ * Built-in {@link ScannerProfile} presets.
+ */
+export const scannerProfiles = {
+  default: defaultScannerProfile,
+
+  /** Honeywell factory default, Enter suffix. */
+  honeywell: {
+    suffix: "\r",
+    charTimeout: 200,
+  },
+
+  /** Honeywell with STX prefix and ETX suffix. */
+  honeywellSTXETX: {
+    prefix: "\x02",
+    suffix: "\x03",
+    charTimeout: 200,
+  },
+
+  /** Zebra factory default, Enter suffix. */
+  zebra: {
+    suffix: "\r",
+    charTimeout: 200,
+  },
+
+  /** Zebra with Tab suffix. */
+  zebraTab: {
+    suffix: "\t",
+    charTimeout: 200,
+  },
+
+  /** Scanners on busy machines with slow keystroke delivery. */
+  slow: {
+    charTimeout: 600,
+    totalTimeout: 5000,
+    burstInterval: 150,
+  },
+} as const satisfies Readonly<Record<string, ScannerProfile>>
@@ -0,0 +1,150 @@
+import { describe, expect, test } from "vitest"
+import type { ParseResult } from "./parse.js"
+import { scannerProfiles } from "./profile.js"
+import {
+  attachDLIDScanListener,
+  type KeyEventTargetLike,
+  type ScanKeyEventLike,
+} from "./scan-listener.js"
+import { exampleData, makeFakeClock } from "./test-helpers.js"
+
+const makeFakeTarget = () => {
+  const listeners = new Map<string, (e: ScanKeyEventLike) => void>()
+  const target: KeyEventTargetLike = {
+    addEventListener: (type, listener) => listeners.set(type, listener),
+    removeEventListener: (type) => listeners.delete(type),
+  }
+
+  // characters that reached the focused element
+  let typed = ""
+  const replay = (text: string) => {
+    typed += text
+  }
+
+  const press = (key: string, modifiers: readonly string[] = []) => {
+    let prevented = false
+    const e: ScanKeyEventLike = {
+      key,
+      code: "",
+      getModifierState: (m) => modifiers.includes(m),
+      preventDefault: () => {
+        prevented = true
+      },
+      stopPropagation: () => undefined,
+    }
+    listeners.get("keydown")?.(e)
+    listeners.get("keyup")?.(e)
+    if (!prevented && key.length == 1) {
+      typed += key
+    }
+  }
+
+  // type like a scanner sending control characters as Ctrl+J, Ctrl+^ and
+  // Enter
+  const scan = (data: string) => {
+    for (const c of data) {
+      if (c == "\n") {
+        press("j", ["Control"])
+      } else if (c == "\x1e") {
+        press("^", ["Control"])
+      } else if (c == "\r") {
+        press("Enter")
+      } else {
+        press(c)
+      }
+    }
+  }
+
+  return { target, listeners, press, scan, replay, getTyped: () => typed }
+}
+
+describe("scan listener", () => {
+  test("captures a scan", () => {
+    const { clock } = makeFakeClock()
+    const { target, press, scan, replay, getTyped } = makeFakeTarget()
+    const results: ParseResult[] = []
+    attachDLIDScanListener(target, {
+      clock,
+      replay,
+      onScanComplete: (r) => results.push(r),
+    })
+
+    press("a")
+    scan(exampleData)
+    press("b")
+
+    expect(results[0]?.subfiles.get("DL")?.get("DCS")).toBe("SAMPLE")
+    expect(getTyped()).toBe("ab")
+  })
+
+  test("lets typing through", () => {
+    const { clock, advance } = makeFakeClock()
+    const { target, press, replay, getTyped } = makeFakeTarget()
+    const aborts: string[] = []
+    attachDLIDScanListener(target, {
+      clock,
+      replay,
+      onScanAbort: (reason) => aborts.push(reason),
+    })
+
+    press("@")
+    press("e")
+    press("%")
+    press(";")
+    expect(getTyped()).toBe("@e%;")
+
+    press("@")
+    advance(200)
+    expect(aborts).toHaveLength(2)
+    expect(getTyped()).toBe("@e%;@")
+  })
+
+  test("replays held keys that are not a scan", () => {
+    const { clock, advance } = makeFakeClock()
+    const { target, press, replay, getTyped } = makeFakeTarget()
+    attachDLIDScanListener(target, { clock, replay })
+
+    press("a")
+    press("@")
+    expect(getTyped()).toBe("a")
+
+    advance(40)
+    press("b")
+    expect(getTyped()).toBe("a@b")
+  })
+
+  test("suppresses keys once the scan is confirmed", () => {
+    const { clock } = makeFakeClock()
+    const { target, scan, replay, getTyped } = makeFakeTarget()
+    attachDLIDScanListener(target, { clock, replay })
+
+    scan(exampleData.substring(0, 10))
+    expect(getTyped()).toBe("")
+  })
+
+  test("discards the suffix", () => {
+    const { clock } = makeFakeClock()
+    const { target, press, scan, replay, getTyped } = makeFakeTarget()
+    attachDLIDScanListener(target, {
+      clock,
+      replay,
+      profile: scannerProfiles.zebraTab,
+    })
+
+    scan(exampleData)
+    press("Tab")
+    press("a")
+    expect(getTyped()).toBe("a")
+  })
+
+  test("detaches", () => {
+    const { clock } = makeFakeClock()
+    const { target, listeners } = makeFakeTarget()
+
+    const detach = attachDLIDScanListener(target, { clock })
+    expect(listeners.size).toBe(2)
+
+    detach()
+    expect(listeners.size).toBe(0)
+  })
+})
@@ -0,0 +1,256 @@
+/**
+ * Document-level scan listening.
+ *
+ * Captures scanner keystrokes wherever focus is, and lets other typing
+ * through.
+ *
+ * @packageDocumentation
+ */
+
+import { useEffect, useRef } from "react"
+import {
+  DLIDInputController,
+  type DLIDInputControllerOptions,
+  type ScanEventHandlers,
+} from "./controller.js"
+import { translateKey, type KeyboardLayout } from "./layout.js"
+import {
+  hasCommandModifier,
+  SpecialCharInput,
+  type KeyEventLike,
+} from "./special-char.js"
+
+/**
+ * The keyboard event properties used by the scan listener.
+ */
+export type ScanKeyEventLike = KeyEventLike &
+  Readonly<{
+    stopPropagation(): void
+  }>
+
+/**
+ * A target for keyboard event listeners, e.g. `document`.
+ */
+export type KeyEventTargetLike = {
+  addEventListener(
+    type: "keydown" | "keyup",
+    listener: (e: ScanKeyEventLike) => void,
+    capture: boolean,
+  ): void
+  removeEventListener(
+    type: "keydown" | "keyup",
+    listener: (e: ScanKeyEventLike) => void,
+    capture: boolean,
+  ): void
+}
+
+/**
+ * Scan listener options.
+ */
+export type DLIDScanListenerOptions = DLIDInputControllerOptions &
+  ScanEventHandlers &
+  Readonly<{
+    /**
+     * The layout the scanner emulates.
+     */
+    layout?: KeyboardLayout | undefined
+
+    /**
+     * Input the text held back by a capture that was not a scan.
+     *
+     * Defaults to inserting the text into the focused text field.
+     */
+    replay?: ((text: string) => void) | undefined
+  }>
+
+/**
+ * Insert text into the focused text field.
+ */
+const insertText = (text: string) => {
+  const el = document.activeElement
+  if (
+    !(el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) ||
+    el.readOnly ||
+    el.disabled
+  ) {
+    return
+  }
+
+  const start = el.selectionStart
+  if (start != null) {
+    el.setRangeText(text, start, el.selectionEnd ?? start, "end")
+  } else {
+    // inputs like email have no selection. Use the prototype setter, so
+    // frameworks tracking the value still see a change
+    Object.getOwnPropertyDescriptor(
+      HTMLInputElement.prototype,
+      "value",
+    )?.set?.call(el, el.value + text)
+  }
+  el.dispatchEvent(
+    new InputEvent("input", {
+      bubbles: true,
+      inputType: "insertText",
+      data: text,
+    }),
+  )
+}
+
+/**
+ * Get the character input by a key, if any.
+ */
+const getKeyChar = (
+  e: KeyEventLike,
+  layout: KeyboardLayout | undefined,
+): string | undefined => {
+  if (e.key == "Enter") {
+    return "\r"
+  } else if (e.key == "Tab") {
+    return "\t"
+  } else if (hasCommandModifier(e)) {
+    return undefined
+  } else if (layout) {
+    return translateKey(
+      layout,
+      e.code,
+      e.getModifierState("Shift"),
+      e.getModifierState("AltGraph"),
+    )
+  } else if (e.key.length == 1) {
+    return e.key
+  }
+}
+
+const swallow = (e: ScanKeyEventLike) => {
+  e.preventDefault()
+  e.stopPropagation()
+}
+
+/**
+ * Listen for DL/ID scans on a keyboard event target.
+ *
+ * The keys of a capture are held back from the focused element, still
+ * reaching other key listeners, until the capture is confirmed as a scan by
+ * its burst of input. From then on they are kept from the page. When a
+ * capture turns out not to be a scan, its text is replayed without control
+ * characters.
+ *
+ * @param target - The event target, usually `document`
+ * @param options - {@link DLIDScanListenerOptions}
+ * @returns A function to stop listening
+ */
+export const attachDLIDScanListener = (
+  target: KeyEventTargetLike,
+  options: DLIDScanListenerOptions = {},
+): (() => void) => {
+  const controller = new DLIDInputController("", options)
+  const special = new SpecialCharInput(
+    options.layout
+      ? {
+          layout: options.layout,
+          isCapturing: () => controller.getSnapshot().isCapturing,
+        }
+      : {},
+  )
+  const replay = options.replay ?? insertText
+
+  controller.addScanListener({
+    onScanStart: () => options.onScanStart?.(),
+    onScanHeader: (header) => options.onScanHeader?.(header),
+    onScanComplete: (result, raw) => options.onScanComplete?.(result, raw),
+    onScanAbort: (reason, raw) => {
+      special.reset()
+      options.onScanAbort?.(reason, raw)
+
+      // a confirmed scan leaves an error status
+      const { status, value } = controller.getSnapshot()
+      if (reason != "dispose" && status == "aborted") {
+        controller.setValue("")
+        if (value) {
+          replay(value)
+        }
+      }
+    },
+  })
+
+  const onKeyDown = (e: ScanKeyEventLike) => {
+    const wasCapturing = controller.getSnapshot().isCapturing
+    const confirmed = controller.isScanConfirmed()
+    const c =
+      (wasCapturing ? special.onKeyDown(e) : undefined) ??
+      getKeyChar(e, options.layout)
+    if (c == null) {
+      if (confirmed) {
+        swallow(e)
+      }
+      return
+    }
+
+    if (!wasCapturing) {
+      controller.setValue("")
+    }
+    controller.append(c)
+
+    const { isCapturing, value } = controller.getSnapshot()
+    if (
+      confirmed ||
+      controller.isScanConfirmed() ||
+      (!wasCapturing && !value)
+    ) {
+      // scanner input, or a discarded scan suffix
+      swallow(e)
+    } else if (isCapturing || value != c) {
+      // held back until the capture is confirmed or replayed
+      e.preventDefault()
+    }
+  }
+
+  const onKeyUp = (e: ScanKeyEventLike) => {
+    if (controller.getSnapshot().isCapturing) {
+      if (controller.isScanConfirmed()) {
+        swallow(e)
+      }
+      const c = special.onKeyUp(e)
+      if (c != null) {
+        controller.append(c)
+      }
+    }
+  }
+
+  target.addEventListener("keydown", onKeyDown, true)
+  target.addEventListener("keyup", onKeyUp, true)
+
+  return () => {
+    target.removeEventListener("keydown", onKeyDown, true)
+    target.removeEventListener("keyup", onKeyUp, true)
+    controller.dispose()
+  }
+}
+
+/**
+ * Listen for DL/ID scans on the document while the component is mounted.
+ *
+ * @param options - {@link DLIDScanListenerOptions}, read when mounted except
+ *   for the callbacks
+ */
+export const useDLIDScanListener = (options: DLIDScanListenerOptions) => {
+  // keep the latest callbacks without re-attaching
+  const handlers = useRef<DLIDScanListenerOptions>(options)
+  useEffect(() => {
+    handlers.current = options
+  })
+
+  useEffect(
+    () =>
+      attachDLIDScanListener(document, {
+        ...handlers.current,
+        onScanStart: () => handlers.current.onScanStart?.(),
+        onScanHeader: (header) => handlers.current.onScanHeader?.(header),
+        onScanComplete: (result, raw) =>
+          handlers.current.onScanComplete?.(result, raw),
+        onScanAbort: (reason, raw) =>
+          handlers.current.onScanAbort?.(reason, raw),
+      }),
+    [],
+  )
+}
@@ -1,15 +1,82 @@
-import { useCallback, useState, type KeyboardEvent } from "react"
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type KeyboardEvent,
+} from "react"
+import { decodeAltCode, getAltCodeDigit } from "./alt-code.js"
+import { translateKey, type KeyboardLayout } from "./layout.js"
 
-const NUMS = "0123456789"
+/**
+ * The keyboard event properties used by {@link SpecialCharInput}.
+ *
+ * Satisfied by both React and DOM keyboard events.
+ */
+export type KeyEventLike = Readonly<{
+  key: string
+  code: string
+  getModifierState(key: string): boolean
+  preventDefault(): void
+}>
+
+const DLID_TRIGGER = "@"
+
+/**
+ * Whether a key is pressed with Control, Alt or Meta, as a command rather
+ * than to type a character. AltGraph combinations type characters.
+ */
+export const hasCommandModifier = (e: KeyEventLike): boolean =>
+  !e.getModifierState("AltGraph") &&
+  (e.getModifierState("Control") ||
+    e.getModifierState("Alt") ||
+    e.getModifierState("Meta"))
+
+/**
+ * {@link SpecialCharInput} options.
+ */
+export type SpecialCharInputOptions =
+  | Readonly<{
+      layout?: undefined
+    }>
+  | Readonly<{
+      /**
+       * The layout the scanner emulates.
+       *
+       * While a scan is captured, printable keys are translated from their
+       * physical key code instead of using the character produced by the
+       * operating system layout.
+       */
+      layout: KeyboardLayout
+
+      /**
+       * Whether a scan is being captured. Keys typed otherwise are left
+       * alone.
+       */
+      isCapturing: () => boolean
+    }>
 
 /**
  * Special character input state.
  *
- * Handles alt codes, enter, and Ctrl+J.
+ * Handles alt codes, enter, Ctrl+J, and keyboard layout translation. Alt
+ * codes follow Windows, see {@link decodeAltCode}.
  */
 export class SpecialCharInput {
   private altBuffer = ""
-  constructor() {}
+  private options: SpecialCharInputOptions
+
+  constructor(options: SpecialCharInputOptions = {}) {
+    this.options = options
+  }
+
+  /**
+   * The layout to translate keys with, while capturing.
+   */
+  private get layout(): KeyboardLayout | undefined {
+    const { options } = this
+    return options.layout && options.isCapturing() ? options.layout : undefined
+  }
 
   /**
    * Append an alt code number.
@@ -31,14 +98,9 @@ export class SpecialCharInput {
    * @returns A special character or undefined if invalid
    */
   finish(): string | undefined {
-    const num = parseInt(this.altBuffer, 10)
+    const char = decodeAltCode(this.altBuffer)
     this.reset()
-
-    if (isNaN(num)) {
-      return undefined
-    } else {
-      return String.fromCharCode(num)
-    }
+    return char
   }
 
   /**
@@ -46,24 +108,88 @@ export class SpecialCharInput {
    *
    * @returns A special character to input, or undefined
    */
-  onKeyDown = (e: KeyboardEvent): string | undefined => {
+  onKeyDown = (e: KeyEventLike): string | undefined => {
     if (e.key == "Alt") {
       e.preventDefault()
       return
     }
 
-    const isAlt = e.getModifierState("Alt")
-    if (isAlt && NUMS.includes(e.key)) {
-      this.altBuffer += e.key
+    const altDigit = e.getModifierState("Alt") ? getAltCodeDigit(e) : undefined
+    if (altDigit != null) {
+      this.altBuffer += altDigit
       e.preventDefault()
       return
     }
 
-    const specialChar = getSpecialChar(e)
+    const specialChar = getSpecialChar(e, this.getKey(e))
     if (specialChar != null) {
       e.preventDefault()
       return specialChar
     }
+
+    const translated = this.translate(e)
+    if (translated != null) {
+      e.preventDefault()
+      return translated
+    }
+  }
+
+  /**
+   * Get the key value, translated through the layout if set.
+   */
+  private getKey(e: KeyEventLike): string {
+    const layout = this.layout
+    if (!layout) {
+      return e.key
+    }
+    return translateKey(layout, e.code, e.getModifierState("Shift")) ?? e.key
+  }
+
+  /**
+   * Translate a printable key through the layout.
+   */
+  private translate(e: KeyEventLike): string | undefined {
+    const layout = this.layout
+    if (!layout) {
+      return undefined
+    }
+
+    if (hasCommandModifier(e)) {
+      return undefined
+    }
+
+    return translateKey(
+      layout,
+      e.code,
+      e.getModifierState("Shift"),
+      e.getModifierState("AltGraph"),
+    )
+  }
+
+  /**
+   * Get the scan trigger sent with a key, while not capturing.
+   *
+   * The trigger must be recognized before capturing starts, but typed keys
+   * are not translated then. Returns "@" when the key is "@" in the layout
+   * and something else on the host, e.g. Shift+2 on an AZERTY keyboard.
+   *
+   * @returns The trigger, or undefined
+   */
+  getTrigger = (e: KeyEventLike): string | undefined => {
+    const { options } = this
+    if (!options.layout || options.isCapturing() || e.key.length != 1) {
+      return undefined
+    }
+    const altGraph = e.getModifierState("AltGraph")
+    const key = translateKey(
+      options.layout,
+      e.code,
+      e.getModifierState("Shift"),
+      altGraph,
+    )
+    return key == DLID_TRIGGER && e.key != key && !hasCommandModifier(e)
+      ? key
+      : undefined
   }
 
   /**
@@ -71,7 +197,7 @@ export class SpecialCharInput {
    *
    * @returns A special character to input, or undefined
    */
-  onKeyUp = (e: KeyboardEvent): string | undefined => {
+  onKeyUp = (e: KeyEventLike): string | undefined => {
     if (e.key == "Alt") {
       if (this.altBuffer.length > 0) {
         return this.finish()
@@ -82,12 +208,12 @@ export class SpecialCharInput {
   }
 }
 
-const getSpecialChar = (e: KeyboardEvent): string | undefined => {
+const getSpecialChar = (e: KeyEventLike, key: string): string | undefined => {
   const ctrl = e.getModifierState("Control")
 
-  if (e.key == "j" && ctrl) {
+  if (key == "j" && ctrl) {
     return "\n"
-  } else if ((e.key == "6" || e.key == "^") && ctrl) {
+  } else if ((key == "6" || key == "^") && ctrl) {
     return "\x1e"
   } else if (e.key == "Enter") {
     return "\r"
@@ -97,25 +223,56 @@ const getSpecialChar = (e: KeyboardEvent): string | undefined => {
 /**
  * Use special character input handling.
  *
- * @param callback - A callback called when a special character is input.
+ * @param callback - A callback called when a special character is input,
+ *   with the typed key and the scan trigger when the key is one, see
+ *   {@link SpecialCharInput.getTrigger}. Attach the handlers at all times
+ *   when using a layout, so that the trigger is seen.
+ * @param options - {@link SpecialCharInputOptions}, the layout is read when
+ *   mounted
  * @returns An object with onKeyUp and onKeyDown handlers
  */
 export const useSpecialCharInput = (
-  callback: (value: string) => void,
+  callback: (value: string, scanned?: string) => void,
+  options?: SpecialCharInputOptions,
 ): {
   onKeyDown: (e: KeyboardEvent) => void
   onKeyUp: (e: KeyboardEvent) => void
 } => {
-  const [state] = useState(() => new SpecialCharInput())
+  // keep the latest capture state callback
+  const optionsRef = useRef(options)
+  useEffect(() => {
+    optionsRef.current = options
+  })
+
+  const [state] = useState(
+    () =>
+      new SpecialCharInput(
+        options?.layout
+          ? {
+              layout: options.layout,
+              isCapturing: () =>
+                optionsRef.current?.layout != null &&
+                optionsRef.current.isCapturing(),
+            }
+          : {},
+      ),
+  )
 
   const keyDownWithCallback = useCallback(
     (e: KeyboardEvent) => {
+      const trigger = state.getTrigger(e)
+      if (trigger) {
+        e.preventDefault()
+        callback(e.key, trigger)
+        return
+      }
+
       const res = state.onKeyDown(e)
       if (res) {
         callback(res)
       }
     },
-    [state.onKeyDown, callback],
+    [state.getTrigger, state.onKeyDown, callback],
   )
 
   const keyUpWithCallback = useCallback(
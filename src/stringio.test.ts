@@ -33,3 +33,56 @@ describe("string reader", () => {
     expect(() => reader.read(5)).toThrowError(EOF)
   })
 })
+
+describe("chunked string reader", () => {
+  const makeChunked = () => {
+    const reader = new StringIO("")
+    for (const c of ["ab", "c", "", "def", "g"]) {
+      reader.append(c)
+    }
+    return reader
+  }
+
+  test("slice", () => {
+    const reader = makeChunked()
+    expect(reader.length).toBe(7)
+    expect(reader.slice(1, 5)).toBe("bcde")
+    expect(reader.slice(0, 1)).toBe("a")
+    expect(reader.slice(6, 7)).toBe("g")
+    expect(() => reader.slice(6, 8)).toThrowError(EOF)
+  })
+
+  test("read", () => {
+    const reader = makeChunked()
+    expect(reader.read(3)).toBe("abc")
+    expect(reader.read(3)).toBe("def")
+    expect(reader.peek(1)).toBe("g")
+    expect(reader.data).toBe("abcdefg")
+    expect(reader.read(1)).toBe("g")
+  })
+
+  test("read until", () => {
+    const reader = makeChunked()
+    expect(reader.readUntil("e")).toBe("abcd")
+    expect(reader.pos).toBe(4)
+    expect(reader.readUntil("x", 6)).toBe("ef")
+    expect(reader.readUntil("x")).toBe("g")
+    expect(reader.avail).toBe(0)
+  })
+
+  test("index of", () => {
+    const reader = makeChunked()
+    expect(reader.indexOf("cd", 0)).toBe(2)
+    expect(reader.indexOf("a", 1)).toBe(-1)
+    expect(reader.indexOf("g", 3)).toBe(6)
+  })
+
+  test("clear", () => {
+    const reader = makeChunked()
+    reader.read(3)
+    reader.clear()
+    expect(reader.length).toBe(0)
+    expect(reader.pos).toBe(0)
+    expect(reader.data).toBe("")
+  })
+})
@@ -1,23 +1,144 @@
 export class EOF extends Error {}
 
+const SEARCH_WINDOW = 1024
+
 /**
  * String IO class.
+ *
+ * Appended data is kept as a list of chunks, so appending and reading
+ * sequentially do not copy the data read so far.
  */
 export class StringIO {
+  private chunks: string[]
+  // start offset of each chunk
+  private offsets: number[]
+  private size: number
+  // index of the chunk containing the last accessed position
+  private cursor = 0
+
   constructor(
-    public data: string,
+    data: string,
     public pos = 0,
-  ) {}
+  ) {
+    this.chunks = data ? [data] : []
+    this.offsets = data ? [0] : []
+    this.size = data.length
+  }
+
+  /**
+   * All data.
+   */
+  get data(): string {
+    if (this.chunks.length > 1) {
+      const joined = this.chunks.join("")
+      this.chunks = [joined]
+      this.offsets = [0]
+      this.cursor = 0
+    }
+    return this.chunks[0] ?? ""
+  }
+
+  /**
+   * Total length of the data.
+   */
+  get length(): number {
+    return this.size
+  }
 
   get avail(): number {
-    return this.data.length - this.pos
+    return this.size - this.pos
+  }
+
+  /**
+   * Find the index of the chunk containing an offset.
+   */
+  private findChunk(offset: number): number {
+    const start = this.offsets[this.cursor] ?? 0
+    if (offset >= start) {
+      // usually sequential
+      let i = this.cursor
+      while (offset >= (this.offsets[i + 1] ?? Infinity)) {
+        i++
+      }
+      this.cursor = i
+      return i
+    }
+
+    let lo = 0
+    let hi = this.cursor
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1
+      if ((this.offsets[mid] ?? Infinity) <= offset) {
+        lo = mid
+      } else {
+        hi = mid - 1
+      }
+    }
+    this.cursor = lo
+    return lo
+  }
+
+  /**
+   * Get a chunk and its start offset.
+   */
+  private getChunk(i: number): Readonly<{ chunk: string; start: number }> {
+    const chunk = this.chunks[i]
+    const start = this.offsets[i]
+    if (chunk == null || start == null) {
+      throw new EOF()
+    }
+    return { chunk, start }
+  }
+
+  /**
+   * Get the data between two offsets.
+   */
+  slice(start: number, end: number): string {
+    if (end > this.size) {
+      throw new EOF()
+    }
+    if (end <= start) {
+      return ""
+    }
+
+    let i = this.findChunk(start)
+    const { chunk, start: chunkStart } = this.getChunk(i)
+    if (end - chunkStart <= chunk.length) {
+      return chunk.substring(start - chunkStart, end - chunkStart)
+    }
+
+    const parts = [chunk.substring(start - chunkStart)]
+    let remaining = end - chunkStart - chunk.length
+    while (remaining > 0) {
+      i++
+      const next = this.getChunk(i).chunk
+      parts.push(next.substring(0, remaining))
+      remaining -= next.length
+    }
+    return parts.join("")
+  }
+
+  /**
+   * Find the offset of a string at or after an offset.
+   *
+   * @returns The offset, or -1 if not found in the data so far
+   */
+  indexOf(search: string, from: number): number {
+    for (let start = from; start < this.size; start += SEARCH_WINDOW) {
+      const end = Math.min(this.size, start + SEARCH_WINDOW + search.length - 1)
+      const idx = this.slice(start, end).indexOf(search)
+      if (idx != -1) {
+        return start + idx
+      }
+    }
+    return -1
   }
 
   peek(n: number): string {
     if (n > this.avail) {
       throw new EOF()
     }
-    return this.data.substring(this.pos, this.pos + n)
+    return this.slice(this.pos, this.pos + n)
   }
 
   read(n: number): string {
@@ -26,7 +147,52 @@ export class StringIO {
     return res
   }
 
+  /**
+   * Read until one of the given characters or an end offset.
+   *
+   * Reads as much as is available, without reading the stop character.
+   *
+   * @returns The data read
+   */
+  readUntil(stop: string, end = Infinity): string {
+    const limit = Math.min(end, this.size)
+    const parts: string[] = []
+    while (this.pos < limit) {
+      const { chunk, start: chunkStart } = this.getChunk(
+        this.findChunk(this.pos),
+      )
+      const from = this.pos - chunkStart
+      const to = Math.min(chunk.length, limit - chunkStart)
+
+      let j = from
+      while (j < to && !stop.includes(chunk.charAt(j))) {
+        j++
+      }
+      parts.push(chunk.substring(from, j))
+      this.pos = chunkStart + j
+      if (j < to) {
+        break
+      }
+    }
+    return parts.join("")
+  }
+
+  /**
+   * Drop all data.
+   */
+  clear() {
+    this.chunks = []
+    this.offsets = []
+    this.size = 0
+    this.pos = 0
+    this.cursor = 0
+  }
+
   append(data: string) {
-    this.data += data
+    if (data) {
+      this.chunks.push(data)
+      this.offsets.push(this.size)
+      this.size += data.length
+    }
   }
 }
@@ -0,0 +1,62 @@
+import { describe, expect, test } from "vitest"
+import { decodeDLID } from "./decode.js"
+import { makeDLIDParser } from "./parse.js"
+import { StringIO } from "./stringio.js"
+import {
+  corruptCard,
+  corruptions,
+  generateCard,
+  makeRandom,
+  syntheticVersions,
+} from "./synthetic.js"
+
+describe("synthetic cards", () => {
+  test("is deterministic", () => {
+    expect(generateCard(makeRandom(7)).payload).toBe(
+      generateCard(makeRandom(7)).payload,
+    )
+    expect(generateCard(makeRandom(7)).payload).not.toBe(
+      generateCard(makeRandom(8)).payload,
+    )
+  })
+
+  test.each(syntheticVersions)("parses version %s", (aamvaVersion) => {
+    const card = generateCard(makeRandom(1), {
+      aamvaVersion,
+      iin: "636000",
+      documentTypes: ["ID", "DL"],
+      jurisdictionSubfile: true,
+      optionalElements: true,
+    })
+    const res = makeDLIDParser(new StringIO(card.payload)).parse()
+
+    expect(res.header).toStrictEqual(card.header)
+    expect(res.subfiles).toStrictEqual(card.subfiles)
+    expect(Array.from(res.subfiles.keys())).toStrictEqual(["ID", "DL", "ZV"])
+    expect(res.warnings).toStrictEqual([])
+
+    const decoded = decodeDLID(res)
+    expect(decoded?.name.family).toBeTruthy()
+    expect(decoded?.dateOfBirth).toBeDefined()
+  })
+
+  test("omits optional elements", () => {
+    const card = generateCard(makeRandom(1), {
+      aamvaVersion: "10",
+      documentTypes: ["DL"],
+      optionalElements: false,
+    })
+    expect(card.subfiles.get("DL")?.has("DDK")).toBe(false)
+  })
+
+  test.each(corruptions)("applies %s corruption", (corruption) => {
+    const random = makeRandom(3)
+    const card = generateCard(random, { documentTypes: ["DL"] })
+    const payload = corruptCard(random, card, corruption)
+
+    expect(payload).not.toBe(card.payload)
+    if (corruption != "truncate") {
+      expect(payload).toHaveLength(card.payload.length)
+    }
+  })
+})
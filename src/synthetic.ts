@@ -0,0 +1,412 @@
+/**
+ * Synthetic DL/ID payloads for testing.
+ *
+ * Cards are generated from a seeded random source, so a failing payload can
+ * be reproduced from its seed.
+ *
+ * @packageDocumentation
+ */
+
+import { encodeDLID } from "./encode.js"
+import { jurisdictions, type Jurisdiction } from "./iin.js"
+import {
+  isLegacyVersion,
+  type Header,
+  type SubfileData,
+  type Subfiles,
+} from "./parse.js"
+
+/**
+ * A random number source returning values in [0, 1).
+ */
+export type Random = () => number
+
+/**
+ * Make a seeded {@link Random} source.
+ */
+export const makeRandom = (seed: number): Random => {
+  // mulberry32
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Separator characters of a card.
+ */
+export type Separators = Readonly<{
+  dataElementSeparator: string
+  recordSeparator: string
+  segmentTerminator: string
+}>
+
+/**
+ * Separator choices seen on issued cards.
+ */
+export const separatorSets: readonly [Separators, ...Separators[]] = [
+  {
+    dataElementSeparator: "\n",
+    recordSeparator: "\x1e",
+    segmentTerminator: "\r",
+  },
+  {
+    dataElementSeparator: "\n",
+    recordSeparator: "\x1c",
+    segmentTerminator: "\r",
+  },
+  {
+    dataElementSeparator: "\x1d",
+    recordSeparator: "\x1e",
+    segmentTerminator: "\r",
+  },
+]
+
+/**
+ * AAMVA versions produced by the generator.
+ */
+export const syntheticVersions: readonly [string, ...string[]] = [
+  "00",
+  "01",
+  "02",
+  "03",
+  "04",
+  "05",
+  "06",
+  "07",
+  "08",
+  "09",
+  "10",
+  "11",
+]
+
+/**
+ * Synthetic card options. Unset options are chosen at random.
+ */
+export type SyntheticCardOptions = Readonly<{
+  aamvaVersion?: string | undefined
+  iin?: string | undefined
+  separators?: Separators | undefined
+
+  /**
+   * The document subfiles, in order.
+   */
+  documentTypes?: readonly ("DL" | "ID")[] | undefined
+
+  /**
+   * Whether to add a jurisdiction-specific subfile.
+   */
+  jurisdictionSubfile?: boolean | undefined
+
+  /**
+   * Whether to include each optional element, or include each at random.
+   */
+  optionalElements?: boolean | undefined
+}>
+
+/**
+ * A synthetic card.
+ */
+export type SyntheticCard = Readonly<{
+  header: Header
+  subfiles: Subfiles
+  payload: string
+}>
+
+/**
+ * A controlled corruption of a payload.
+ *
+ * - `truncate` - the payload is cut short
+ * - `offset` - a subfile designator has the wrong offset
+ * - `length` - a subfile designator has the wrong length
+ * - `separator` - a data element separator is replaced
+ * - `header` - a header separator is replaced with a letter
+ */
+export type Corruption =
+  "truncate" | "offset" | "length" | "separator" | "header"
+
+export const corruptions: readonly [Corruption, ...Corruption[]] = [
+  "truncate",
+  "offset",
+  "length",
+  "separator",
+  "header",
+]
+
+const HEADER_SIZE = 21
+const LEGACY_HEADER_SIZE = 19
+const SUBFILE_DESIGNATOR_SIZE = 10
+
+type NonEmpty<T> = readonly [T, ...T[]]
+
+const familyNames: NonEmpty<string> = [
+  "SAMPLE",
+  "SMITH",
+  "GARCIA",
+  "O'NEIL",
+  "NGUYEN-TRAN",
+]
+const firstNames: NonEmpty<string> = [
+  "JANE",
+  "MICHAEL",
+  "MARIA",
+  "JEAN LUC",
+  "AIKO",
+]
+const middleNames: NonEmpty<string> = ["ANN", "J", "MARIE", "LEE"]
+const suffixes: NonEmpty<string> = ["JR", "SR", "III"]
+const streets: NonEmpty<string> = [
+  "123 MAIN ST",
+  "4 ELM AVE APT 2",
+  "77 RUE DU PORT",
+]
+const cities: NonEmpty<string> = [
+  "RICHMOND",
+  "SPRINGFIELD",
+  "HALIFAX",
+  "ALBANY",
+]
+
+const isNonEmpty = <T>(items: readonly T[]): items is NonEmpty<T> =>
+  items.length > 0
+
+const pick = <T>(random: Random, items: NonEmpty<T>): T =>
+  items[Math.floor(random() * items.length)] ?? items[0]
+
+const randomInt = (random: Random, min: number, max: number): number =>
+  min + Math.floor(random() * (max - min + 1))
+
+const digits = (random: Random, n: number): string =>
+  Array.from({ length: n }, () => randomInt(random, 0, 9)).join("")
+
+const pad = (value: number, width: number): string =>
+  value.toString().padStart(width, "0")
+
+const formatDate = (
+  year: number,
+  month: number,
+  day: number,
+  yearFirst: boolean,
+): string =>
+  yearFirst
+    ? `${pad(year, 4)}${pad(month, 2)}${pad(day, 2)}`
+    : `${pad(month, 2)}${pad(day, 2)}${pad(year, 4)}`
+
+const makeDocumentRecords = (
+  random: Random,
+  version: number,
+  jurisdiction: Jurisdiction,
+  optional: () => boolean,
+): SubfileData => {
+  const records = new Map<string, string>()
+  // version 01 and Canadian cards use CCYYMMDD
+  const yearFirst = version <= 1 || jurisdiction.country == "CAN"
+  const birthYear = randomInt(random, 1940, 2008)
+  const month = randomInt(random, 1, 12)
+  const day = randomInt(random, 1, 28)
+  const issueYear = randomInt(random, 2015, 2024)
+  const date = (year: number) => formatDate(year, month, day, yearFirst)
+
+  const family = pick(random, familyNames)
+  const first = pick(random, firstNames)
+  const middle = pick(random, middleNames)
+
+  records.set(
+    "DAQ",
+    `${jurisdiction.abbreviation.charAt(0)}${digits(random, 8)}`,
+  )
+  if (version <= 1) {
+    records.set("DAA", `${family},${first},${middle}`)
+    records.set("DAR", pick(random, ["C", "D", "M"]))
+    records.set("DAS", pick(random, ["NONE", "B"]))
+    records.set("DAT", pick(random, ["NONE", "M"]))
+  } else {
+    records.set("DCA", pick(random, ["C", "D", "M"]))
+    records.set("DCB", pick(random, ["NONE", "B"]))
+    records.set("DCD", pick(random, ["NONE", "M"]))
+    records.set("DCS", family)
+    if (version <= 3) {
+      records.set("DCT", `${first},${middle}`)
+    } else {
+      records.set("DAC", first)
+      records.set("DAD", middle)
+    }
+  }
+  records.set("DBA", date(issueYear + 8))
+  records.set("DBB", date(birthYear))
+  records.set("DBC", pick(random, ["1", "2", "9"]))
+  records.set("DBD", date(issueYear))
+  records.set("DAY", pick(random, ["BLU", "BRO", "GRN", "HAZ"]))
+  records.set(
+    "DAU",
+    jurisdiction.country == "CAN"
+      ? `${randomInt(random, 150, 200)} CM`
+      : `0${randomInt(random, 58, 78)} IN`,
+  )
+  records.set("DAG", pick(random, streets))
+  records.set("DAI", pick(random, cities))
+  records.set("DAJ", jurisdiction.abbreviation)
+  records.set("DAK", digits(random, 5).padEnd(11, " "))
+  if (version >= 2) {
+    records.set("DCF", digits(random, 12))
+    records.set("DCG", jurisdiction.country)
+  }
+  if (version >= 4) {
+    records.set("DDE", pick(random, ["N", "T", "U"]))
+    records.set("DDF", pick(random, ["N", "T", "U"]))
+    records.set("DDG", pick(random, ["N", "T", "U"]))
+  }
+
+  if (optional()) {
+    records.set(version <= 1 ? "DAE" : "DCU", pick(random, suffixes))
+  }
+  if (optional()) {
+    records.set("DAZ", pick(random, ["BLK", "BRO", "GRY"]))
+  }
+  if (version >= 4) {
+    if (optional()) {
+      records.set("DDA", pick(random, ["F", "N"]))
+    }
+    if (optional()) {
+      records.set("DDB", formatDate(2016, 1, 1, yearFirst))
+    }
+    if (optional()) {
+      records.set("DDH", date(birthYear + 18))
+      records.set("DDI", date(birthYear + 19))
+      records.set("DDJ", date(birthYear + 21))
+    }
+    if (optional()) {
+      records.set("DDK", "1")
+    }
+    if (optional()) {
+      records.set("DDL", "1")
+    }
+  }
+  return records
+}
+
+const makeJurisdictionRecords = (
+  random: Random,
+  subfileType: string,
+): SubfileData => {
+  const records = new Map<string, string>()
+  const count = randomInt(random, 1, 3)
+  for (let i = 0; i < count; i++) {
+    records.set(
+      subfileType + String.fromCharCode(65 + i),
+      digits(random, randomInt(random, 1, 6)),
+    )
+  }
+  return records
+}
+
+/**
+ * Generate a synthetic card.
+ *
+ * @param random - The random source, see {@link makeRandom}
+ * @param options - {@link SyntheticCardOptions}
+ */
+export const generateCard = (
+  random: Random,
+  options: SyntheticCardOptions = {},
+): SyntheticCard => {
+  const aamvaVersion = options.aamvaVersion ?? pick(random, syntheticVersions)
+  const iins = Array.from(jurisdictions.keys())
+  const iin = options.iin ?? (isNonEmpty(iins) ? pick(random, iins) : "000000")
+  const jurisdiction = jurisdictions.get(iin) ?? {
+    iin,
+    name: "Unknown",
+    abbreviation: "XX",
+    country: "USA",
+  }
+  const separators = options.separators ?? pick(random, separatorSets)
+  const documentTypes =
+    options.documentTypes ??
+    pick<readonly ("DL" | "ID")[]>(random, [
+      ["DL"],
+      ["ID"],
+      ["DL", "ID"],
+      ["ID", "DL"],
+    ])
+  const jurisdictionSubfile = options.jurisdictionSubfile ?? random() < 0.5
+  const optional = () => options.optionalElements ?? random() < 0.5
+  const version = parseInt(aamvaVersion, 10)
+
+  const subfiles = new Map<string, SubfileData>()
+  documentTypes.forEach((type) => {
+    subfiles.set(
+      type,
+      makeDocumentRecords(random, version, jurisdiction, optional),
+    )
+  })
+  if (jurisdictionSubfile) {
+    const type = `Z${jurisdiction.abbreviation.charAt(0)}`
+    subfiles.set(type, makeJurisdictionRecords(random, type))
+  }
+
+  const header: Header = {
+    ...separators,
+    iin,
+    aamvaVersion,
+    // legacy headers have no jurisdiction version
+    jurisdictionVersion: isLegacyVersion(aamvaVersion)
+      ? "00"
+      : pad(randomInt(random, 0, 12), 2),
+    numEntries: subfiles.size,
+  }
+
+  return { header, subfiles, payload: encodeDLID({ header, subfiles }) }
+}
+
+const replaceAt = (text: string, index: number, value: string): string =>
+  text.substring(0, index) + value + text.substring(index + value.length)
+
+/**
+ * Apply a {@link Corruption} to a card's payload.
+ *
+ * @returns The corrupted payload
+ */
+export const corruptCard = (
+  random: Random,
+  card: SyntheticCard,
+  corruption: Corruption,
+): string => {
+  const { header, payload } = card
+  const headerSize = isLegacyVersion(header.aamvaVersion)
+    ? LEGACY_HEADER_SIZE
+    : HEADER_SIZE
+  const designator =
+    headerSize +
+    SUBFILE_DESIGNATOR_SIZE * randomInt(random, 0, header.numEntries - 1)
+
+  switch (corruption) {
+    case "truncate":
+      return payload.substring(0, randomInt(random, 1, payload.length - 1))
+    case "offset":
+    case "length": {
+      const start = designator + (corruption == "offset" ? 2 : 6)
+      const value = parseInt(payload.substring(start, start + 4), 10)
+      const delta = pick(random, [-3, -2, -1, 1, 2, 3])
+      return replaceAt(payload, start, pad(Math.max(0, value + delta), 4))
+    }
+    case "separator": {
+      const body = headerSize + SUBFILE_DESIGNATOR_SIZE * header.numEntries
+      const positions: number[] = []
+      for (let i = body; i < payload.length; i++) {
+        if (payload.charAt(i) == header.dataElementSeparator) {
+          positions.push(i)
+        }
+      }
+      const replacement = pick(random, ["\x1f", "\t", " ", "|"])
+      return isNonEmpty(positions)
+        ? replaceAt(payload, pick(random, positions), replacement)
+        : payload
+    }
+    case "header":
+      return replaceAt(payload, randomInt(random, 1, 3), "A")
+  }
+}
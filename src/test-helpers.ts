@@ -0,0 +1,107 @@
+/**
+ * Fixtures shared by the tests.
+ *
+ * @packageDocumentation
+ */
+
+import type { Clock, TimerHandle } from "./controller.js"
+import type { Header, ParseResult } from "./parse.js"
+import type { KeyEventLike } from "./special-char.js"
+
+/**
+ * A short version 11 scan with a DL subfile.
+ */
+export const exampleData =
+  "@\n\x1e\rANSI 636000110001DL00310025" + "DLDAQT64235789\nDCSSAMPLE\r"
+
+/**
+ * Make a version 11 Virginia header.
+ */
+export const makeHeader = (header: Partial<Header> = {}): Header => ({
+  dataElementSeparator: "\n",
+  recordSeparator: "\x1e",
+  segmentTerminator: "\r",
+  numEntries: 1,
+  iin: "636000",
+  aamvaVersion: "11",
+  jurisdictionVersion: "00",
+  ...header,
+})
+
+/**
+ * Make a parse result with the records of each subfile.
+ */
+export const makeResult = (
+  subfiles: Readonly<Record<string, Readonly<Record<string, string>>>>,
+  header: Partial<Header> = {},
+): ParseResult => {
+  const types = Object.keys(subfiles)
+  return {
+    header: makeHeader({ numEntries: types.length, ...header }),
+    subfileDesignators: types.map((type) => ({ type, offset: 0, length: 0 })),
+    subfiles: new Map(
+      Object.entries(subfiles).map(([type, records]) => [
+        type,
+        new Map(Object.entries(records)),
+      ]),
+    ),
+    rawSubfiles: new Map(),
+    warnings: [],
+  }
+}
+
+/**
+ * Make a {@link Clock} that only advances when told to.
+ */
+export const makeFakeClock = () => {
+  let time = 0
+  const timers = new Map<TimerHandle, { at: number; callback: () => void }>()
+
+  const clock: Clock = {
+    now: () => time,
+    setTimeout: (callback, ms) => {
+      // a unique handle of the platform's type
+      const handle = globalThis.setTimeout(() => undefined, 0)
+      globalThis.clearTimeout(handle)
+      timers.set(handle, { at: time + ms, callback })
+      return handle
+    },
+    clearTimeout: (handle) => {
+      timers.delete(handle)
+    },
+  }
+
+  const advance = (ms: number) => {
+    time += ms
+    timers.forEach((timer, handle) => {
+      if (timer.at <= time) {
+        timers.delete(handle)
+        timer.callback()
+      }
+    })
+  }
+
+  return { clock, advance, timers }
+}
+
+/**
+ * Make a keyboard event.
+ *
+ * @returns The event, and a function to check whether it was prevented
+ */
+export const makeKeyEvent = (
+  code: string,
+  key: string,
+  modifiers: readonly string[] = [],
+) => {
+  let prevented = false
+  const event: KeyEventLike = {
+    code,
+    key,
+    getModifierState: (m) => modifiers.includes(m),
+    preventDefault: () => {
+      prevented = true
+    },
+  }
+  return { event, isPrevented: () => prevented }
+}
@@ -0,0 +1,299 @@
+import { describe, expect, test } from "vitest"
+import { ParseError, type ParseResult } from "./parse.js"
+import {
+  listenForScans,
+  makeFakeTransport,
+  decodeHIDPOSReport,
+  openHIDTransport,
+  openSerialTransport,
+  type HIDDeviceLike,
+  type HIDInputReportEventLike,
+  type SerialPortLike,
+} from "./transport.js"
+import { exampleData, makeFakeClock } from "./test-helpers.js"
+
+const toBytes = (data: string): Uint8Array =>
+  Uint8Array.from(data, (c) => c.charCodeAt(0))
+
+const makeFakeHIDDevice = () => {
+  let listener: ((e: HIDInputReportEventLike) => void) | undefined
+  const device: HIDDeviceLike & { opened: boolean } = {
+    opened: false,
+    open: async () => {
+      device.opened = true
+    },
+    close: async () => {
+      device.opened = false
+    },
+    addEventListener: (_type, cb) => {
+      listener = cb
+    },
+    removeEventListener: (_type, cb) => {
+      if (listener == cb) {
+        listener = undefined
+      }
+    },
+  }
+
+  // scanned data report: length, AIM symbology identifier, 56 bytes of data,
+  // 2 reserved bytes and the continuation flag
+  const sendReport = (data: string, more = false, reportId = 2) => {
+    const bytes = new Uint8Array(63)
+    bytes[0] = data.length
+    bytes.set(toBytes("]L0"), 1)
+    bytes.set(toBytes(data), 4)
+    bytes[62] = more ? 1 : 0
+    listener?.({ reportId, data: new DataView(bytes.buffer) })
+  }
+
+  return { device, sendReport }
+}
+
+const makeFakeSerialPort = () => {
+  let controller: ReadableStreamDefaultController<Uint8Array> | undefined
+  const port: SerialPortLike = {
+    readable: new ReadableStream({
+      start: (c) => {
+        controller = c
+      },
+    }),
+    open: async () => undefined,
+    close: async () => undefined,
+  }
+  if (!controller) {
+    throw new Error("stream not started")
+  }
+  return { port, controller }
+}
+
+describe("listen for scans", () => {
+  test("parses chunked data", () => {
+    const transport = makeFakeTransport()
+    const results: ParseResult[] = []
+    listenForScans(transport, { onScan: (r) => results.push(r) })
+
+    transport.send("\r\n")
+    for (let i = 0; i < exampleData.length; i += 7) {
+      transport.send(exampleData.substring(i, i + 7))
+    }
+
+    expect(results).toHaveLength(1)
+    expect(results[0]?.subfiles.get("DL")?.get("DAQ")).toBe("T64235789")
+  })
+
+  test("parses consecutive scans in one chunk", () => {
+    const transport = makeFakeTransport()
+    const results: ParseResult[] = []
+    listenForScans(transport, { onScan: (r) => results.push(r) })
+
+    transport.send(exampleData + exampleData)
+    expect(results).toHaveLength(2)
+  })
+
+  test("reports errors and recovers", () => {
+    const transport = makeFakeTransport()
+    const results: ParseResult[] = []
+    const errors: ParseError[] = []
+    listenForScans(transport, {
+      onScan: (r) => results.push(r),
+      onError: (e) => errors.push(e),
+    })
+
+    transport.send("@\n\x1e\rXXXXX")
+    expect(errors).toHaveLength(1)
+    expect(errors[0]).toBeInstanceOf(ParseError)
+
+    transport.send(exampleData)
+    expect(results).toHaveLength(1)
+  })
+
+  test("continues after the end of the scan", () => {
+    const transport = makeFakeTransport()
+    const results: ParseResult[] = []
+    const errors: ParseError[] = []
+    listenForScans(transport, {
+      onScan: (r) => results.push(r),
+      onError: (e) => errors.push(e),
+    })
+
+    // a subfile value that looks like the start of a scan
+    transport.send(exampleData.replace("SAMPLE", "S@MPLE"))
+    expect(results).toHaveLength(1)
+    expect(errors).toHaveLength(0)
+  })
+
+  test("drops an incomplete scan after the timeout", () => {
+    const { clock, advance } = makeFakeClock()
+    const transport = makeFakeTransport()
+    const results: ParseResult[] = []
+    const errors: ParseError[] = []
+    listenForScans(
+      transport,
+      { onScan: (r) => results.push(r), onError: (e) => errors.push(e) },
+      { clock, timeout: 500 },
+    )
+
+    transport.send(exampleData.substring(0, 40))
+    advance(400)
+    expect(errors).toHaveLength(0)
+    advance(100)
+    expect(errors).toHaveLength(1)
+    expect(errors[0]?.message).toBe("Incomplete scan")
+
+    transport.send(exampleData)
+    expect(results).toHaveLength(1)
+  })
+
+  test("drops an incomplete scan when a new scan starts", () => {
+    const transport = makeFakeTransport()
+    const results: ParseResult[] = []
+    const errors: ParseError[] = []
+    listenForScans(transport, {
+      onScan: (r) => results.push(r),
+      onError: (e) => errors.push(e),
+    })
+
+    transport.send(exampleData.substring(0, 40))
+    transport.send(exampleData.substring(0, 20))
+    transport.send(exampleData.substring(20))
+
+    expect(errors).toHaveLength(1)
+    expect(errors[0]?.offset).toBe(40)
+    expect(results).toHaveLength(1)
+  })
+
+  test("drops an incomplete scan when a split header arrives", () => {
+    const transport = makeFakeTransport()
+    const results: ParseResult[] = []
+    const errors: ParseError[] = []
+    listenForScans(transport, {
+      onScan: (r) => results.push(r),
+      onError: (e) => errors.push(e),
+    })
+
+    transport.send(exampleData.substring(0, 40))
+    transport.send(exampleData.substring(0, 1))
+    expect(errors).toHaveLength(0)
+    transport.send(exampleData.substring(1))
+
+    expect(errors).toHaveLength(1)
+    expect(errors[0]?.offset).toBe(40)
+    expect(results).toHaveLength(1)
+  })
+
+  test("reports transport errors", () => {
+    const transport = makeFakeTransport()
+    const errors: unknown[] = []
+    listenForScans(transport, {
+      onScan: () => {
+        throw new Error("listener failed")
+      },
+      onTransportError: (e) => errors.push(e),
+    })
+
+    transport.fail(new Error("disconnected"))
+    transport.send(exampleData)
+    expect(errors.map((e) => (e as Error).message)).toStrictEqual([
+      "disconnected",
+      "listener failed",
+    ])
+  })
+
+  test("stops listening", async () => {
+    const transport = makeFakeTransport()
+    const results: ParseResult[] = []
+    const stop = listenForScans(transport, { onScan: (r) => results.push(r) })
+
+    stop()
+    transport.send(exampleData)
+    expect(results).toHaveLength(0)
+
+    await transport.close()
+    expect(transport.closed).toBe(true)
+  })
+})
+
+describe("HID transport", () => {
+  test("reads HID POS reports", async () => {
+    const { device, sendReport } = makeFakeHIDDevice()
+    const transport = await openHIDTransport(device)
+    expect(device.opened).toBe(true)
+
+    const results: ParseResult[] = []
+    listenForScans(transport, { onScan: (r) => results.push(r) })
+    sendReport(exampleData.substring(0, 40), true)
+    sendReport(exampleData.substring(40))
+
+    expect(results[0]?.subfiles.get("DL")?.get("DCS")).toBe("SAMPLE")
+
+    await transport.close()
+    expect(device.opened).toBe(false)
+  })
+
+  test("decodes scanned data reports", () => {
+    const { device, sendReport } = makeFakeHIDDevice()
+    const decoded: (string | undefined)[] = []
+    device.addEventListener("inputreport", (e) =>
+      decoded.push(decodeHIDPOSReport(e)),
+    )
+
+    sendReport("@\n\x1e\r", true)
+    sendReport("ANSI ")
+    sendReport("@\n\x1e\r", false, 1)
+
+    expect(decoded).toStrictEqual(["@\n\x1e\r", "ANSI ", undefined])
+  })
+})
+
+describe("serial transport", () => {
+  test("reads a serial port", async () => {
+    const { port, controller } = makeFakeSerialPort()
+
+    const transport = await openSerialTransport(port)
+    const received: string[] = []
+    transport.listen((data) => received.push(data))
+
+    controller.enqueue(toBytes("@\n\x1e\r"))
+    await new Promise((r) => setTimeout(r, 0))
+    expect(received).toStrictEqual(["@\n\x1e\r"])
+
+    await transport.close()
+  })
+
+  test("keeps reading after a listener throws", async () => {
+    const { port, controller } = makeFakeSerialPort()
+
+    const transport = await openSerialTransport(port)
+    const received: string[] = []
+    transport.listen((data) => {
+      received.push(data)
+      throw new Error("listener failed")
+    })
+
+    controller.enqueue(toBytes("@"))
+    controller.enqueue(toBytes("\n"))
+    await new Promise((r) => setTimeout(r, 0))
+    expect(received).toStrictEqual(["@", "\n"])
+
+    // dropped without an error listener
+    controller.error(new Error("disconnected"))
+    await new Promise((r) => setTimeout(r, 0))
+
+    await transport.close()
+  })
+
+  test("reports read errors", async () => {
+    const { port, controller } = makeFakeSerialPort()
+
+    const transport = await openSerialTransport(port)
+    const errors: unknown[] = []
+    transport.listenForErrors((e) => errors.push(e))
+
+    const error = new Error("disconnected")
+    controller.error(error)
+    await new Promise((r) => setTimeout(r, 0))
+    expect(errors).toStrictEqual([error])
+
+    await transport.close()
+  })
+})
@@ -0,0 +1,507 @@
+/**
+ * Direct scanner transports.
+ *
+ * Transports read scanner data from a device instead of keystrokes, so
+ * control characters arrive unchanged.
+ *
+ * @packageDocumentation
+ */
+
+import { systemClock, type Clock, type TimerHandle } from "./controller.js"
+import {
+  findHeaderStart,
+  makeDLIDParser,
+  ParseError,
+  type Parser,
+  type ParseResult,
+} from "./parse.js"
+import { EOF, StringIO } from "./stringio.js"
+
+/**
+ * A source of raw scanner data.
+ */
+export type Transport = Readonly<{
+  /**
+   * Listen for received data.
+   *
+   * @returns A function to remove the listener
+   */
+  listen(listener: (data: string) => void): () => void
+
+  /**
+   * Listen for errors, such as the device being disconnected or a data
+   * listener throwing.
+   *
+   * Errors are dropped if there is no error listener.
+   *
+   * @returns A function to remove the listener
+   */
+  listenForErrors(listener: (error: unknown) => void): () => void
+
+  /**
+   * Stop reading and close the device.
+   */
+  close(): Promise<void>
+}>
+
+/**
+ * In-memory {@link Transport} for testing.
+ */
+export type FakeTransport = Transport &
+  Readonly<{
+    /**
+     * Deliver data to the listeners.
+     */
+    send(data: string): void
+
+    /**
+     * Deliver an error to the error listeners.
+     */
+    fail(error: unknown): void
+
+    /**
+     * Whether {@link Transport.close} was called.
+     */
+    readonly closed: boolean
+  }>
+
+/**
+ * Minimal WebHID `HIDInputReportEvent`.
+ */
+export type HIDInputReportEventLike = Readonly<{
+  reportId: number
+  data: DataView
+}>
+
+/**
+ * Minimal WebHID `HIDDevice`.
+ */
+export type HIDDeviceLike = {
+  readonly opened: boolean
+  open(): Promise<void>
+  close(): Promise<void>
+  addEventListener(
+    type: "inputreport",
+    listener: (e: HIDInputReportEventLike) => void,
+  ): void
+  removeEventListener(
+    type: "inputreport",
+    listener: (e: HIDInputReportEventLike) => void,
+  ): void
+}
+
+/**
+ * Minimal Web Serial `SerialPort`.
+ */
+export type SerialPortLike = {
+  readonly readable: ReadableStream<Uint8Array> | null
+  open(options: { baudRate: number }): Promise<void>
+  close(): Promise<void>
+}
+
+/**
+ * Extract the scanned data from a HID input report.
+ *
+ * @returns The data, or undefined to ignore the report
+ */
+export type HIDReportDecoder = (
+  report: HIDInputReportEventLike,
+) => string | undefined
+
+/**
+ * WebHID device filter for the HID point of sale barcode scanner usage page.
+ */
+export const hidPOSFilter: Readonly<{ usagePage: number }> = {
+  usagePage: 0x8c,
+}
+
+const HID_POS_SCANNED_DATA_REPORT_ID = 2
+const HID_POS_SYMBOLOGY_ID_LENGTH = 3
+const HID_POS_DATA_OFFSET = 1 + HID_POS_SYMBOLOGY_ID_LENGTH
+
+/**
+ * Decode a HID POS scanned data report.
+ *
+ * After the report ID, the report has the data length, the 3 byte AIM
+ * symbology identifier, the data, and ends with a continuation flag that is
+ * set when the data continues in the next report. Data split across reports
+ * is joined by the scan parser, so the flag is not needed here.
+ */
+export const decodeHIDPOSReport: HIDReportDecoder = (report) => {
+  const { reportId, data } = report
+  if (
+    reportId != HID_POS_SCANNED_DATA_REPORT_ID ||
+    data.byteLength <= HID_POS_DATA_OFFSET
+  ) {
+    return undefined
+  }
+  const length = Math.min(
+    data.getUint8(0),
+    data.byteLength - HID_POS_DATA_OFFSET - 1,
+  )
+  return decodeBytes(
+    new Uint8Array(data.buffer, data.byteOffset + HID_POS_DATA_OFFSET, length),
+  )
+}
+
+/**
+ * Decode bytes as characters, keeping control characters.
+ */
+const decodeBytes = (bytes: Uint8Array): string => {
+  let res = ""
+  for (const b of bytes) {
+    res += String.fromCharCode(b)
+  }
+  return res
+}
+
+class _Listeners<T> {
+  private listeners: ((value: T) => void)[] = []
+
+  constructor(private onError: (error: unknown) => void = () => undefined) {}
+
+  listen(listener: (value: T) => void): () => void {
+    this.listeners.push(listener)
+    return () => {
+      const idx = this.listeners.indexOf(listener)
+      if (idx != -1) {
+        this.listeners.splice(idx, 1)
+      }
+    }
+  }
+
+  /**
+   * Call each listener, passing any exception to the error handler.
+   */
+  emit(value: T) {
+    this.listeners.forEach((cb) => {
+      try {
+        cb(value)
+      } catch (e) {
+        this.onError(e)
+      }
+    })
+  }
+
+  clear() {
+    this.listeners = []
+  }
+}
+
+class _FakeTransport {
+  private errors = new _Listeners<unknown>()
+  private listeners = new _Listeners<string>((e) => this.errors.emit(e))
+  closed = false
+
+  listen(listener: (data: string) => void): () => void {
+    return this.listeners.listen(listener)
+  }
+
+  listenForErrors(listener: (error: unknown) => void): () => void {
+    return this.errors.listen(listener)
+  }
+
+  send(data: string) {
+    if (!this.closed) {
+      this.listeners.emit(data)
+    }
+  }
+
+  fail(error: unknown) {
+    if (!this.closed) {
+      this.errors.emit(error)
+    }
+  }
+
+  async close() {
+    this.closed = true
+    this.listeners.clear()
+    this.errors.clear()
+  }
+}
+
+/**
+ * Make a {@link FakeTransport}.
+ */
+export const makeFakeTransport = (): FakeTransport => new _FakeTransport()
+
+class _HIDTransport {
+  private errors = new _Listeners<unknown>()
+  private listeners = new _Listeners<string>((e) => this.errors.emit(e))
+
+  constructor(
+    private device: HIDDeviceLike,
+    private decodeReport: HIDReportDecoder,
+  ) {
+    device.addEventListener("inputreport", this.handleReport)
+  }
+
+  private handleReport = (e: HIDInputReportEventLike) => {
+    const data = this.decodeReport(e)
+    if (data) {
+      this.listeners.emit(data)
+    }
+  }
+
+  listen(listener: (data: string) => void): () => void {
+    return this.listeners.listen(listener)
+  }
+
+  listenForErrors(listener: (error: unknown) => void): () => void {
+    return this.errors.listen(listener)
+  }
+
+  async close() {
+    this.device.removeEventListener("inputreport", this.handleReport)
+    this.listeners.clear()
+    this.errors.clear()
+    await this.device.close()
+  }
+}
+
+/**
+ * Open a WebHID scanner.
+ *
+ * @param device - A device from `navigator.hid.requestDevice()`
+ * @param decodeReport - The input report decoder
+ */
+export const openHIDTransport = async (
+  device: HIDDeviceLike,
+  decodeReport: HIDReportDecoder = decodeHIDPOSReport,
+): Promise<Transport> => {
+  if (!device.opened) {
+    await device.open()
+  }
+  return new _HIDTransport(device, decodeReport)
+}
+
+class _SerialTransport {
+  private errors = new _Listeners<unknown>()
+  private listeners = new _Listeners<string>((e) => this.errors.emit(e))
+  private reader: ReadableStreamDefaultReader<Uint8Array> | undefined
+  private done: Promise<void>
+
+  constructor(private port: SerialPortLike) {
+    this.reader = port.readable?.getReader()
+    this.done = this.read()
+  }
+
+  private async read() {
+    const reader = this.reader
+    if (!reader) {
+      return
+    }
+
+    // listener exceptions are passed to the error listeners by emit, so
+    // only read errors end the loop
+    try {
+      for (;;) {
+        const { value, done } = await reader.read()
+        if (done) {
+          break
+        }
+        this.listeners.emit(decodeBytes(value))
+      }
+    } catch (e) {
+      this.errors.emit(e)
+    } finally {
+      reader.releaseLock()
+      this.reader = undefined
+    }
+  }
+
+  listen(listener: (data: string) => void): () => void {
+    return this.listeners.listen(listener)
+  }
+
+  listenForErrors(listener: (error: unknown) => void): () => void {
+    return this.errors.listen(listener)
+  }
+
+  async close() {
+    this.listeners.clear()
+    this.errors.clear()
+    await this.reader?.cancel()
+    await this.done.catch(() => undefined)
+    await this.port.close()
+  }
+}
+
+/**
+ * Open a Web Serial scanner.
+ *
+ * @param port - A port from `navigator.serial.requestPort()`
+ * @param baudRate - The baud rate
+ */
+export const openSerialTransport = async (
+  port: SerialPortLike,
+  baudRate = 9600,
+): Promise<Transport> => {
+  await port.open({ baudRate })
+  return new _SerialTransport(port)
+}
+
+/**
+ * Callbacks for {@link listenForScans}.
+ */
+export type ScanListener = Readonly<{
+  /**
+   * Called with each completed scan.
+   */
+  onScan(result: ParseResult): void
+
+  /**
+   * Called when a scan fails to parse or is incomplete.
+   */
+  onError?: ((error: ParseError) => void) | undefined
+
+  /**
+   * Called with errors from the transport, see
+   * {@link Transport.listenForErrors}.
+   */
+  onTransportError?: ((error: unknown) => void) | undefined
+}>
+
+/**
+ * {@link listenForScans} options.
+ */
+export type ListenForScansOptions = Readonly<{
+  /**
+   * Milliseconds to wait for more data before an incomplete scan is dropped.
+   */
+  timeout?: number | undefined
+
+  clock?: Clock | undefined
+}>
+
+const DLID_TRIGGER = "@"
+const DEFAULT_SCAN_TIMEOUT = 1000
+
+// "@", the separators and the file type
+const HEADER_START_LENGTH = 9
+
+const makeIncompleteError = (offset: number): ParseError =>
+  new ParseError("Incomplete scan", { offset })
+
+/**
+ * Find the start of a new header in the data of a scan.
+ *
+ * @returns The offset of the header, or -1, and the offset to continue
+ *   searching from when more data arrives
+ */
+const findNextHeader = (
+  reader: StringIO,
+  from: number,
+): Readonly<{ next: number; searched: number }> => {
+  for (
+    let i = reader.indexOf(DLID_TRIGGER, from);
+    i != -1;
+    i = reader.indexOf(DLID_TRIGGER, i + 1)
+  ) {
+    if (i + HEADER_START_LENGTH > reader.length) {
+      return { next: -1, searched: i }
+    } else if (findHeaderStart(reader.slice(i, i + HEADER_START_LENGTH)) == 0) {
+      return { next: i, searched: i }
+    }
+  }
+  return { next: -1, searched: reader.length }
+}
+
+/**
+ * Parse DL/ID scans from a {@link Transport}.
+ *
+ * Data before the start of a scan is ignored. An incomplete scan is dropped
+ * when no data arrives before the timeout, or when a new header arrives.
+ *
+ * @returns A function to stop listening
+ */
+export const listenForScans = (
+  transport: Transport,
+  listener: ScanListener,
+  options: ListenForScansOptions = {},
+): (() => void) => {
+  const { timeout = DEFAULT_SCAN_TIMEOUT, clock = systemClock } = options
+  let current: Readonly<{ reader: StringIO; parser: Parser }> | undefined =
+    undefined
+  // offset to search for a new header from
+  let searched = 1
+  let timer: TimerHandle | undefined = undefined
+
+  const clearTimer = () => {
+    if (timer != null) {
+      clock.clearTimeout(timer)
+    }
+    timer = undefined
+  }
+
+  const reset = () => {
+    clearTimer()
+    current = undefined
+    searched = 1
+  }
+
+  const handleTimeout = () => {
+    timer = undefined
+    if (current) {
+      const error = makeIncompleteError(current.reader.length)
+      reset()
+      listener.onError?.(error)
+    }
+  }
+
+  const handleData = (data: string) => {
+    if (!current) {
+      const start = data.indexOf(DLID_TRIGGER)
+      if (start == -1) {
+        return
+      }
+      const reader = new StringIO(data.substring(start))
+      current = { reader, parser: makeDLIDParser(reader) }
+    } else {
+      current.reader.append(data)
+    }
+
+    const { reader, parser } = current
+    try {
+      const result = parser.parse()
+      const rest = reader.slice(reader.pos, reader.length)
+      reset()
+      listener.onScan(result)
+      if (rest) {
+        handleData(rest)
+      }
+    } catch (e) {
+      if (!(e instanceof EOF || e instanceof ParseError)) {
+        throw e
+      }
+
+      // a new header means this scan was cut off
+      const found = findNextHeader(reader, searched)
+      const { next } = found
+      searched = found.searched
+      if (e instanceof EOF && next == -1) {
+        clearTimer()
+        timer = clock.setTimeout(handleTimeout, timeout)
+        return
+      }
+
+      reset()
+      listener.onError?.(
+        next == -1 && e instanceof ParseError ? e : makeIncompleteError(next),
+      )
+      if (next != -1) {
+        handleData(reader.slice(next, reader.length))
+      }
+    }
+  }
+
+  const stopData = transport.listen(handleData)
+  const stopErrors = listener.onTransportError
+    ? transport.listenForErrors(listener.onTransportError)
+    : undefined
+  return () => {
+    stopData()
+    stopErrors?.()
+    reset()
+  }
+}
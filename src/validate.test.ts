@@ -0,0 +1,120 @@
+import { describe, expect, test } from "vitest"
+import {
+  getElementDefinition,
+  getMandatoryElements,
+  validate,
+} from "./validate.js"
+import { makeResult } from "./test-helpers.js"
+
+const exampleRecords = {
+  DAQ: "T64235789",
+  DCS: "SAMPLE",
+  DDE: "N",
+  DAC: "MICHAEL",
+  DDF: "N",
+  DAD: "JOHN",
+  DDG: "N",
+  DCU: "JR",
+  DCA: "D",
+  DCB: "K",
+  DCD: "PH",
+  DBD: "06062022",
+  DBB: "06062006",
+  DBA: "06062027",
+  DBC: "1",
+  DAU: "068 in",
+  DAY: "BRO",
+  DAG: "2300 WEST BROAD STREET",
+  DAI: "RICHMOND",
+  DAJ: "VA",
+  DAK: "232690000 ",
+  DCF: "2424244747474786102204",
+  DCG: "USA",
+  DCK: "123456789",
+  DDA: "F",
+  DDB: "06062018",
+  DDJ: "06062027",
+  DDD: "1",
+}
+
+describe("validate", () => {
+  test("validates test data", () => {
+    expect(validate(makeResult({ DL: exampleRecords }))).toStrictEqual({
+      valid: true,
+      missing: [],
+      invalid: [],
+      unknown: [],
+    })
+  })
+
+  test("reports missing elements", () => {
+    const { DAQ: _, DCS: __, ...records } = exampleRecords
+    const report = validate(makeResult({ DL: records }))
+    expect(report.valid).toBe(false)
+    expect(report.missing).toStrictEqual([
+      { subfileType: "DL", elementIds: ["DCS"] },
+      { subfileType: "DL", elementIds: ["DAQ"] },
+    ])
+  })
+
+  test("reports invalid elements", () => {
+    const report = validate(
+      makeResult({
+        DL: {
+          ...exampleRecords,
+          DBB: "0606200",
+          DAJ: "V1",
+        },
+      }),
+    )
+    expect(report.valid).toBe(false)
+    expect(report.invalid).toStrictEqual([
+      {
+        subfileType: "DL",
+        elementId: "DBB",
+        value: "0606200",
+        reason: "length",
+      },
+      { subfileType: "DL", elementId: "DAJ", value: "V1", reason: "charset" },
+    ])
+  })
+
+  test("reports unknown elements", () => {
+    const report = validate(
+      makeResult({
+        DL: {
+          ...exampleRecords,
+          DAR: "D",
+          ZZZ: "1",
+        },
+      }),
+    )
+    expect(report.valid).toBe(true)
+    expect(report.unknown).toStrictEqual([
+      { subfileType: "DL", elementId: "DAR" },
+      { subfileType: "DL", elementId: "ZZZ" },
+    ])
+  })
+
+  test("does not require class elements on ID cards", () => {
+    const { DCA: _, DCB: __, DCD: ___, ...records } = exampleRecords
+    expect(validate(makeResult({ ID: records })).valid).toBe(true)
+    expect(getMandatoryElements("11", "ID")).not.toContainEqual(["DCA"])
+  })
+
+  test("reports a missing DL/ID subfile", () => {
+    const report = validate(makeResult({ ZV: { ZVA: "01" } }))
+    expect(report.valid).toBe(false)
+    expect(report.missing).toContainEqual({
+      subfileType: "DL",
+      elementIds: ["DAQ"],
+    })
+  })
+
+  test("uses version specific definitions", () => {
+    expect(getElementDefinition("01", "DAR")).toBeDefined()
+    expect(getElementDefinition("10", "DAR")).toBeUndefined()
+    expect(getMandatoryElements("01", "DL")).toContainEqual(["DAA", "DAB"])
+    expect(getMandatoryElements("03", "DL")).toContainEqual(["DCT"])
+  })
+})
@@ -0,0 +1,340 @@
+/**
+ * DL/ID subfile validation against the AAMVA element definitions.
+ *
+ * @packageDocumentation
+ */
+
+import type { ParseResult, SubfileData } from "./parse.js"
+
+/**
+ * Allowed characters for an element.
+ *
+ * - `A` - alphabetic
+ * - `N` - numeric
+ * - `AN` - alphanumeric
+ * - `ANS` - alphanumeric and special characters
+ */
+export type ElementCharset = "A" | "N" | "AN" | "ANS"
+
+/**
+ * A DL/ID data element definition.
+ */
+export type ElementDefinition = Readonly<{
+  id: string
+  charset: ElementCharset
+  minLength: number
+  maxLength: number
+  /** First AAMVA version defining the element. */
+  since: number
+  /** Last AAMVA version defining the element. */
+  until?: number | undefined
+}>
+
+/**
+ * A set of mandatory elements, at least one of which must be present.
+ */
+export type MissingElement = Readonly<{
+  subfileType: string
+  elementIds: readonly string[]
+}>
+
+/**
+ * An element whose value does not match its definition.
+ */
+export type InvalidElement = Readonly<{
+  subfileType: string
+  elementId: string
+  value: string
+  reason: "length" | "charset"
+}>
+
+/**
+ * An element not defined for the AAMVA version.
+ */
+export type UnknownElement = Readonly<{
+  subfileType: string
+  elementId: string
+}>
+
+/**
+ * Validation report.
+ *
+ * The result is valid when no mandatory elements are missing and no elements
+ * are invalid. Unknown elements are reported but do not affect validity.
+ */
+export type ValidationReport = Readonly<{
+  valid: boolean
+  missing: readonly MissingElement[]
+  invalid: readonly InvalidElement[]
+  unknown: readonly UnknownElement[]
+}>
+
+const el = (
+  id: string,
+  charset: ElementCharset,
+  minLength: number,
+  maxLength: number,
+  since = 1,
+  until?: number,
+): ElementDefinition => ({ id, charset, minLength, maxLength, since, until })
+
+/**
+ * DL/ID data element definitions.
+ */
+export const elementDefinitions: readonly ElementDefinition[] = [
+  // names
+  el("DAA", "ANS", 1, 125, 1, 3),
+  el("DAB", "ANS", 1, 40, 1, 1),
+  el("DAC", "ANS", 1, 40),
+  el("DAD", "ANS", 1, 40),
+  el("DAE", "ANS", 1, 5, 1, 1),
+  el("DAF", "ANS", 1, 5, 1, 1),
+  el("DCS", "ANS", 1, 40, 2),
+  el("DCT", "ANS", 1, 80, 2, 3),
+  el("DCU", "ANS", 1, 5, 2),
+  el("DDE", "A", 1, 1, 4),
+  el("DDF", "A", 1, 1, 4),
+  el("DDG", "A", 1, 1, 4),
+  el("DBN", "ANS", 1, 40),
+  el("DBG", "ANS", 1, 40),
+  el("DBS", "ANS", 1, 5),
+  // address
+  el("DAG", "ANS", 1, 35),
+  el("DAH", "ANS", 1, 35),
+  el("DAI", "ANS", 1, 20),
+  el("DAJ", "A", 2, 2),
+  el("DAK", "AN", 5, 11),
+  el("DAL", "ANS", 1, 35, 1, 1),
+  el("DAM", "ANS", 1, 35, 1, 1),
+  el("DAN", "ANS", 1, 20, 1, 1),
+  el("DAO", "A", 2, 2, 1, 1),
+  el("DAP", "AN", 5, 11, 1, 1),
+  el("DCG", "A", 3, 3, 2),
+  // document
+  el("DAQ", "ANS", 1, 25),
+  el("DAR", "ANS", 1, 6, 1, 1),
+  el("DAS", "ANS", 1, 12, 1, 1),
+  el("DAT", "ANS", 1, 5, 1, 1),
+  el("DCA", "ANS", 1, 6, 2),
+  el("DCB", "ANS", 1, 12, 2),
+  el("DCD", "ANS", 1, 5, 2),
+  el("DCF", "ANS", 1, 25, 2),
+  el("DCH", "ANS", 1, 4, 2, 3),
+  el("DCJ", "ANS", 1, 25, 2),
+  el("DCK", "ANS", 1, 25, 2),
+  el("DCM", "ANS", 1, 4, 2),
+  el("DCN", "ANS", 1, 5, 2),
+  el("DCO", "ANS", 1, 12, 2),
+  el("DCP", "ANS", 1, 50, 2),
+  el("DCQ", "ANS", 1, 50, 2),
+  el("DCR", "ANS", 1, 50, 2),
+  el("DBA", "N", 8, 8),
+  el("DBD", "N", 8, 8),
+  el("DBE", "ANS", 1, 25, 1, 1),
+  el("DBF", "N", 1, 2, 1, 1),
+  el("DBH", "A", 1, 1, 1, 1),
+  el("DBI", "A", 1, 1, 1, 1),
+  el("DBJ", "ANS", 1, 25, 1, 1),
+  el("DBK", "N", 9, 9, 1, 1),
+  el("DDA", "A", 1, 1, 5),
+  el("DDB", "N", 8, 8, 5),
+  el("DDC", "N", 8, 8, 5),
+  el("DDD", "N", 1, 1, 5),
+  // cardholder
+  el("DBB", "N", 8, 8),
+  el("DBC", "AN", 1, 1),
+  el("DAU", "ANS", 3, 6),
+  el("DAV", "N", 3, 3, 1, 1),
+  el("DAW", "N", 3, 3),
+  el("DAX", "N", 3, 3),
+  el("DAY", "A", 3, 3),
+  el("DAZ", "A", 3, 12),
+  el("DCE", "N", 1, 1, 2),
+  el("DCI", "ANS", 1, 33, 2),
+  el("DCL", "ANS", 1, 3, 2),
+  el("DDH", "N", 8, 8, 5),
+  el("DDI", "N", 8, 8, 5),
+  el("DDJ", "N", 8, 8, 5),
+  el("DDK", "N", 1, 1, 5),
+  el("DDL", "N", 1, 1, 5),
+]
+
+const mandatoryV01: readonly (readonly string[])[] = [
+  ["DAA", "DAB"],
+  ["DAG"],
+  ["DAI"],
+  ["DAJ"],
+  ["DAK"],
+  ["DAQ"],
+  ["DBA"],
+  ["DBB"],
+  ["DBC"],
+  ["DBD"],
+]
+
+const mandatoryV02: readonly (readonly string[])[] = [
+  ["DCA"],
+  ["DCB"],
+  ["DCD"],
+  ["DBA"],
+  ["DCS"],
+  ["DCT"],
+  ["DBD"],
+  ["DBB"],
+  ["DBC"],
+  ["DAY"],
+  ["DAU"],
+  ["DAG"],
+  ["DAI"],
+  ["DAJ"],
+  ["DAK"],
+  ["DAQ"],
+  ["DCF"],
+  ["DCG"],
+]
+
+const mandatoryCurrent: readonly (readonly string[])[] = [
+  ["DCA"],
+  ["DCB"],
+  ["DCD"],
+  ["DBA"],
+  ["DCS"],
+  ["DAC"],
+  ["DAD"],
+  ["DBD"],
+  ["DBB"],
+  ["DBC"],
+  ["DAY"],
+  ["DAU"],
+  ["DAG"],
+  ["DAI"],
+  ["DAJ"],
+  ["DAK"],
+  ["DAQ"],
+  ["DCF"],
+  ["DCG"],
+  ["DDE"],
+  ["DDF"],
+  ["DDG"],
+]
+
+// vehicle class, restrictions and endorsements do not apply to ID cards
+const notApplicableToID = ["DCA", "DCB", "DCD"]
+
+/**
+ * Get the mandatory elements of a subfile type for an AAMVA version.
+ *
+ * @returns A list of element ID sets, at least one of each must be present
+ */
+export const getMandatoryElements = (
+  aamvaVersion: string,
+  subfileType: string,
+): readonly (readonly string[])[] => {
+  const version = parseInt(aamvaVersion, 10)
+  const mandatory =
+    isNaN(version) || version <= 1
+      ? mandatoryV01
+      : version <= 3
+        ? mandatoryV02
+        : mandatoryCurrent
+  return subfileType == "ID"
+    ? mandatory.filter(
+        (ids) => !ids.some((id) => notApplicableToID.includes(id)),
+      )
+    : mandatory
+}
+
+/**
+ * Get the definition of an element for an AAMVA version.
+ *
+ * @returns The definition, or undefined if not defined for the version
+ */
+export const getElementDefinition = (
+  aamvaVersion: string,
+  elementId: string,
+): ElementDefinition | undefined => {
+  const version = parseInt(aamvaVersion, 10) || 1
+  return elementDefinitions.find(
+    (def) =>
+      def.id == elementId &&
+      version >= def.since &&
+      (def.until == null || version <= def.until),
+  )
+}
+
+const charsetPatterns: Readonly<Record<ElementCharset, RegExp>> = {
+  A: /^[A-Za-z ]*$/,
+  N: /^[0-9 ]*$/,
+  AN: /^[A-Za-z0-9 ]*$/,
+  ANS: /^[\x20-\x7e\xa0-\xff]*$/,
+}
+
+const validateSubfile = (
+  aamvaVersion: string,
+  subfileType: string,
+  data: SubfileData,
+  missing: MissingElement[],
+  invalid: InvalidElement[],
+  unknown: UnknownElement[],
+) => {
+  getMandatoryElements(aamvaVersion, subfileType).forEach((ids) => {
+    if (!ids.some((id) => data.has(id))) {
+      missing.push({ subfileType, elementIds: ids })
+    }
+  })
+
+  data.forEach((value, elementId) => {
+    const def = getElementDefinition(aamvaVersion, elementId)
+    if (!def) {
+      unknown.push({ subfileType, elementId })
+      return
+    }
+
+    // fixed length fields may be padded with trailing spaces
+    const trimmed = value.trimEnd()
+    if (trimmed.length < def.minLength || value.length > def.maxLength) {
+      invalid.push({ subfileType, elementId, value, reason: "length" })
+    } else if (!charsetPatterns[def.charset].test(trimmed)) {
+      invalid.push({ subfileType, elementId, value, reason: "charset" })
+    }
+  })
+}
+
+/**
+ * Validate the DL and ID subfiles of a {@link ParseResult}.
+ *
+ * A result with neither subfile is validated as an empty DL subfile.
+ */
+export const validate = (result: ParseResult): ValidationReport => {
+  const missing: MissingElement[] = []
+  const invalid: InvalidElement[] = []
+  const unknown: UnknownElement[] = []
+
+  const aamvaVersion = result.header.aamvaVersion
+  let hasDLID = false
+
+  result.subfiles.forEach((data, subfileType) => {
+    if (subfileType == "DL" || subfileType == "ID") {
+      hasDLID = true
+      validateSubfile(
+        aamvaVersion,
+        subfileType,
+        data,
+        missing,
+        invalid,
+        unknown,
+      )
+    }
+  })
+
+  if (!hasDLID) {
+    validateSubfile(aamvaVersion, "DL", new Map(), missing, invalid, unknown)
+  }
+
+  return {
+    valid: missing.length == 0 && invalid.length == 0,
+    missing,
+    invalid,
+    unknown,
+  }
+}